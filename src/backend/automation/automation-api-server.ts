@@ -0,0 +1,273 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { pipelineEvents } from "../events/pipeline-event-emitter";
+import type { ProcessVideoIPCHandlers, RunSubmission } from "../ipc/process-video-handlers";
+import { AppSettingsStorage } from "../services/storage/app-settings-storage";
+import { VideoJobStorage } from "../services/storage/video-job-storage";
+import { type PipelineEvent, RUN_END_STAGES, RUN_MODE_STEPS, type RunMode } from "../types";
+import { formatErrorMessage } from "../utils/error-utils";
+import { matchesRunQuery, toRunSummary } from "../utils/run-utils";
+
+const HOST = "127.0.0.1";
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_EVENTS_PER_RUN = 1000;
+// How long a finished run's events are kept, as the app may stay running in the tray for days
+const FINISHED_RUN_EVENTS_TTL_MS = 60 * 60_000;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const isRunMode = (mode: unknown): mode is RunMode =>
+  typeof mode === "string" && Object.hasOwn(RUN_MODE_STEPS, mode);
+
+// The sequence number of the last event a poller has seen, or -1 for all of them
+const parseAfter = (value: string | null): number => {
+  if (value === null) return -1;
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, "'after' must be a non-negative integer");
+  }
+  return Number(value);
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Request body is too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+        if (!body || typeof body !== "object" || Array.isArray(body)) {
+          throw new Error("not an object");
+        }
+        resolve(body);
+      } catch {
+        reject(new HttpError(400, "Request body must be a JSON object"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+};
+
+/**
+ * An opt-in HTTP API on localhost, so other tools can submit videos or text and follow their runs.
+ * Every request needs the token from the app settings as a bearer token.
+ * Events are kept in memory, so a run's events are only available from when the app started, and
+ * for an hour after the run has finished.
+ */
+export class AutomationApiServer {
+  private readonly appSettingsStorage = AppSettingsStorage.getInstance();
+  private readonly jobStorage = VideoJobStorage.getInstance();
+  private readonly events = new Map<string, PipelineEvent[]>();
+  private readonly pruneTimers = new Map<string, NodeJS.Timeout>();
+  private server: Server | null = null;
+  private token: string | null = null;
+  private port = 0;
+
+  constructor(private readonly processVideo: ProcessVideoIPCHandlers) {
+    pipelineEvents.on("event", (event) => this.recordEvent(event));
+  }
+
+  /**
+   * Start, restart or stop the server to match the settings. A token is generated the first time
+   * the API is enabled.
+   */
+  async applySettings(): Promise<void> {
+    let settings = await this.appSettingsStorage.getSettings();
+    if (settings.automationApiEnabled && !settings.automationApiToken) {
+      settings = await this.appSettingsStorage.updateSettings({
+        automationApiToken: randomBytes(32).toString("hex"),
+      });
+    }
+
+    const { automationApiEnabled, automationApiPort, automationApiToken } = settings;
+    this.token = automationApiToken;
+    if (this.server && automationApiEnabled && automationApiPort === this.port) return;
+
+    await this.stop();
+    if (automationApiEnabled) await this.start(automationApiPort);
+  }
+
+  async regenerateToken(): Promise<void> {
+    const { automationApiToken } = await this.appSettingsStorage.updateSettings({
+      automationApiToken: randomBytes(32).toString("hex"),
+    });
+    this.token = automationApiToken;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private start(port: number): Promise<void> {
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        sendJson(res, status, { error: formatErrorMessage(error) });
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, HOST, () => {
+        server.off("error", reject);
+        this.server = server;
+        this.port = port;
+        resolve();
+      });
+    });
+  }
+
+  private recordEvent(event: PipelineEvent) {
+    // Reasoning that is still streaming is followed by its finished step, which is all a poller needs
+    if (event.kind === "step" && event.payload.step.partial) return;
+    const { runId } = event;
+    // A retried run reports again, so its events are kept until it finishes once more
+    clearTimeout(this.pruneTimers.get(runId));
+    this.pruneTimers.delete(runId);
+
+    const events = this.events.get(runId) ?? [];
+    events.push(event);
+    if (events.length > MAX_EVENTS_PER_RUN) events.shift();
+    this.events.set(runId, events);
+
+    if (event.kind === "stage" && RUN_END_STAGES.includes(event.stage)) {
+      const timer = setTimeout(() => {
+        this.events.delete(runId);
+        this.pruneTimers.delete(runId);
+      }, FINISHED_RUN_EVENTS_TTL_MS);
+      // a pending prune shouldn't keep the app from quitting
+      timer.unref();
+      this.pruneTimers.set(runId, timer);
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse) {
+    this.authorize(req);
+
+    const url = new URL(req.url ?? "/", `http://${HOST}`);
+    const [resource, runId, detail, ...rest] = url.pathname.split("/").filter(Boolean);
+    if (resource !== "runs" || rest.length) throw new HttpError(404, "Not found");
+
+    if (!runId) {
+      if (req.method === "POST") {
+        return sendJson(res, 202, { runId: await this.submitRun(await readJsonBody(req)) });
+      }
+      if (req.method === "GET") {
+        return sendJson(res, 200, await this.listRuns(url.searchParams.get("query")));
+      }
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    if (req.method !== "GET") throw new HttpError(405, "Method not allowed");
+    const job = await this.jobStorage.getJob(runId);
+    if (!job) throw new HttpError(404, `Run '${runId}' not found`);
+
+    const events = this.events.get(runId) ?? [];
+    switch (detail) {
+      case undefined:
+        return sendJson(res, 200, {
+          ...toRunSummary(job),
+          mode: job.mode ?? "full",
+          stage: events.filter((event) => event.kind === "stage").at(-1)?.stage,
+          updatedAt: job.updatedAt,
+        });
+      case "events": {
+        const after = parseAfter(url.searchParams.get("after"));
+        return sendJson(
+          res,
+          200,
+          events.filter((event) => event.seq > after),
+        );
+      }
+      case "result": {
+        const { checkpoints } = job;
+        return sendJson(res, 200, {
+          status: job.status,
+          transcript: checkpoints.transcript,
+          summary: checkpoints.intermediateOutput,
+          finalOutput: checkpoints.mcpResult?.final,
+          videoUrl: checkpoints.uploadResult?.data?.url,
+          error: job.error,
+        });
+      }
+      default:
+        throw new HttpError(404, "Not found");
+    }
+  }
+
+  /**
+   * Only callers with the token, talking to localhost by name, get through. Checking the host
+   * keeps web pages from reaching the API through a DNS name that resolves to 127.0.0.1.
+   */
+  private authorize(req: IncomingMessage) {
+    const allowedHosts = [`${HOST}:${this.port}`, `localhost:${this.port}`];
+    if (!allowedHosts.includes(req.headers.host ?? "")) {
+      throw new HttpError(403, "Forbidden host");
+    }
+
+    const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1] ?? "";
+    const expected = Buffer.from(this.token ?? "");
+    const actual = Buffer.from(token);
+    if (
+      !expected.length ||
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      throw new HttpError(401, "Missing or invalid token");
+    }
+  }
+
+  private async submitRun(body: Record<string, unknown>): Promise<string> {
+    const submission = this.parseSubmission(body);
+    try {
+      return await this.processVideo.submitRun(submission);
+    } catch (error) {
+      // the submission was checked before a run was started for it
+      throw new HttpError(400, formatErrorMessage(error));
+    }
+  }
+
+  private parseSubmission(body: Record<string, unknown>): RunSubmission {
+    const { filePath, prompt, mode } = body;
+    if (typeof filePath === "string" && prompt === undefined) {
+      if (mode !== undefined && !isRunMode(mode)) {
+        throw new HttpError(400, `Unknown run mode '${String(mode)}'`);
+      }
+      return { filePath, mode };
+    }
+    if (typeof prompt === "string" && filePath === undefined) {
+      return { prompt };
+    }
+    throw new HttpError(400, "Submit either a 'filePath' or a 'prompt'");
+  }
+
+  private async listRuns(query: string | null) {
+    const jobs = await this.jobStorage.getAllJobs();
+    const normalizedQuery = query?.trim().toLowerCase();
+    return (
+      normalizedQuery ? jobs.filter((job) => matchesRunQuery(job, normalizedQuery)) : jobs
+    ).map(toRunSummary);
+  }
+}
@@ -1,8 +1,23 @@
 export const ERROR_MESSAGES = {
-  LLM_NOT_CONFIGURED:
-    "LLM is not configured. Please configure it via LLM Settings.",
+  LLM_NOT_CONFIGURED: "LLM is not configured. Please configure it via LLM Settings.",
   AZURE_DEPLOYMENT_MISSING:
     "Azure OpenAI is configured but AZURE_OPENAI_DEPLOYMENT is missing. Please set the deployment name.",
   OPENAI_IS_NOT_CONFIGURED:
-    "OpenAI is not configured. MCP features require OpenAI API key or Azure OpenAI configuration.",
+    "The LLM is not configured. MCP features require an LLM provider to be set up via LLM Settings.",
+  TRANSCRIPTION_MODEL_MISSING:
+    "The LLM provider has no transcription model. Please set one via LLM Settings.",
+  LLM_AUTH_FAILED: "The LLM provider rejected the API key. Please check it via LLM Settings.",
+  LLM_QUOTA_EXCEEDED:
+    "The LLM provider's rate limit or quota was exceeded. Please try again later.",
+  YOUTUBE_NOT_CONNECTED: "YouTube is not connected. Please connect your YouTube account.",
+  YOUTUBE_AUTH_EXPIRED: "Your YouTube sign-in has expired. Please reconnect your YouTube account.",
+  YOUTUBE_QUOTA_EXCEEDED: "The YouTube upload quota was exceeded. Please try again later.",
+  UPLOAD_FAILED: "Uploading the video to YouTube failed.",
+  VIDEO_FILE_NOT_FOUND: "The video file could not be found.",
+  FFMPEG_FAILED: "Converting the video to audio with FFmpeg failed.",
+  TRANSCRIPTION_FAILED: "Transcribing the audio failed.",
+  MCP_SERVER_UNREACHABLE:
+    "None of the MCP servers could be reached. Please check them via MCP Settings.",
 };
+
+export type ErrorCode = keyof typeof ERROR_MESSAGES;
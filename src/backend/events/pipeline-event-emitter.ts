@@ -0,0 +1,124 @@
+import { EventEmitter } from "node:events";
+import { BrowserWindow } from "electron";
+import { IPC_CHANNELS } from "../ipc/channels";
+import type { MCPStep } from "../services/mcp/types";
+import {
+  type PipelineBranch,
+  type PipelineEvent,
+  type PipelineStage,
+  type PipelineStagePayloads,
+  ProgressStage,
+  RUN_END_STAGES,
+  type RunMode,
+} from "../types";
+
+interface PipelineRun {
+  runId: string;
+  mode: RunMode;
+  batchId?: string;
+  external?: boolean;
+}
+
+const BRANCH_STAGES: Record<PipelineBranch, PipelineStage[]> = {
+  upload: [ProgressStage.UPLOADING, ProgressStage.UPLOAD_COMPLETED],
+  transcription: [
+    ProgressStage.CONVERTING_AUDIO,
+    ProgressStage.TRANSCRIBING,
+    ProgressStage.TRANSCRIPTION_COMPLETED,
+  ],
+};
+
+// Stages that finish their branch
+const BRANCH_END_STAGES: PipelineStage[] = [
+  ProgressStage.UPLOAD_COMPLETED,
+  ProgressStage.TRANSCRIPTION_COMPLETED,
+];
+
+// Every run's events, for listeners in the main process like the automation API
+export const pipelineEvents = new EventEmitter<{ event: [PipelineEvent] }>();
+
+// Numbered across all runs, so a retried run's events still follow those of its failed attempt
+let nextSeq = 0;
+
+const getBranch = (stage: PipelineStage) =>
+  (Object.keys(BRANCH_STAGES) as PipelineBranch[]).find((branch) =>
+    BRANCH_STAGES[branch].includes(stage),
+  );
+
+/**
+ * Sends the events of one run to the UI, numbered in the order they were emitted.
+ * Events that finish a branch or the run span from its first event until now.
+ */
+export class PipelineEventEmitter {
+  private readonly startedAt = Date.now();
+  private readonly branchStartedAt = new Map<PipelineBranch, number>();
+  // Latest stage of each branch, and of the task that follows them
+  private readonly currentStages = new Map<PipelineBranch | "task", PipelineStage>();
+
+  constructor(
+    private readonly run: PipelineRun,
+    private readonly onEvent?: (event: PipelineEvent) => void,
+  ) {}
+
+  emit<S extends PipelineStage>(stage: S, payload: PipelineStagePayloads[S]) {
+    const now = Date.now();
+    const branch = getBranch(stage);
+    if (branch && !this.branchStartedAt.has(branch)) {
+      this.branchStartedAt.set(branch, now);
+    }
+    if (!RUN_END_STAGES.includes(stage)) {
+      this.currentStages.set(branch ?? "task", stage);
+    }
+
+    let startedAt = now;
+    let endedAt: number | undefined;
+    if (branch && BRANCH_END_STAGES.includes(stage)) {
+      startedAt = this.branchStartedAt.get(branch) ?? now;
+      endedAt = now;
+    } else if (RUN_END_STAGES.includes(stage)) {
+      startedAt = this.startedAt;
+      endedAt = now;
+    }
+
+    // TypeScript can't tie `stage` to its payload through the generic, so assert the pairing
+    this.send({
+      ...this.run,
+      seq: nextSeq++,
+      kind: "stage",
+      stage,
+      payload,
+      startedAt,
+      endedAt,
+    } as PipelineEvent);
+  }
+
+  emitStep(step: MCPStep) {
+    const timestamp = step.timestamp ?? Date.now();
+    this.send({
+      ...this.run,
+      seq: nextSeq++,
+      kind: "step",
+      stage: ProgressStage.EXECUTING_TASK,
+      payload: { step },
+      startedAt: timestamp,
+      endedAt: timestamp,
+    });
+  }
+
+  /**
+   * The stage the given branch, or the task when no branch is given, is currently at.
+   */
+  getCurrentStage(branch?: PipelineBranch): PipelineStage | undefined {
+    return this.currentStages.get(branch ?? "task");
+  }
+
+  private send(event: PipelineEvent) {
+    this.onEvent?.(event);
+    pipelineEvents.emit("event", event);
+    BrowserWindow.getAllWindows()
+      .filter((win) => !win.isDestroyed())
+      .forEach((win) => {
+        win.webContents.send(IPC_CHANNELS.WORKFLOW_PROGRESS, event);
+      });
+  }
+}
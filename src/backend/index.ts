@@ -3,17 +3,25 @@ import { config as dotenvConfig } from "dotenv";
 import { app, BrowserWindow, session } from "electron";
 import { autoUpdater } from "electron-updater";
 import tmp from "tmp";
+import { AutomationApiServer } from "./automation/automation-api-server";
 import { registerEventForwarders } from "./events/event-forwarder";
+import { AppSettingsIPCHandlers } from "./ipc/app-settings-handlers";
 import { AuthIPCHandlers } from "./ipc/auth-handlers";
 import { CustomPromptSettingsIPCHandlers } from "./ipc/custom-prompt-settings-handlers";
 import { LLMSettingsIPCHandlers } from "./ipc/llm-settings-handlers";
 import { McpIPCHandlers } from "./ipc/mcp-handlers";
 import { ProcessVideoIPCHandlers } from "./ipc/process-video-handlers";
+import { RunHistoryIPCHandlers } from "./ipc/run-history-handlers";
 import { ScreenRecordingIPCHandlers } from "./ipc/screen-recording-handlers";
+import { UsageIPCHandlers } from "./ipc/usage-handlers";
 import { VideoIPCHandlers } from "./ipc/video-handlers";
+import { WebhookIPCHandlers } from "./ipc/webhook-handlers";
+import { GlobalHotkeyService } from "./services/hotkeys/global-hotkey-service";
 import { createMcpOrchestrator } from "./services/mcp/mcp-orchestrator-factory";
 import { RecordingControlBarWindow } from "./services/recording/control-bar-window";
 import { RecordingService } from "./services/recording/recording-service";
+import { AppSettingsStorage } from "./services/storage/app-settings-storage";
+import { AppTray } from "./services/tray/app-tray";
 
 const isDev = process.env.NODE_ENV === "development";
 
@@ -34,16 +42,17 @@ loadEnv();
 
 let mainWindow: BrowserWindow | null = null;
 
-const createWindow = (): void => {
-  // Fix icon path for packaged mode
-  const iconPath = isDev
+// Fix icon path for packaged mode
+const getIconPath = () =>
+  isDev
     ? join(__dirname, "../ui/public/icons/icon.png")
     : join(process.resourcesPath, "public/icons/icon.png");
 
-  mainWindow = new BrowserWindow({
+const createWindow = ({ show = true } = {}): void => {
+  const window = new BrowserWindow({
     width: 1200,
     height: 800,
-    icon: iconPath,
+    icon: getIconPath(),
     show: false,
     webPreferences: {
       nodeIntegration: false,
@@ -51,22 +60,47 @@ const createWindow = (): void => {
       preload: join(__dirname, "preload.js"),
     },
   });
+  mainWindow = window;
 
-  mainWindow.once("ready-to-show", () => {
-    mainWindow?.show();
+  window.once("ready-to-show", () => {
+    if (show) window.show();
+  });
+
+  // Kept in the tray, the window is only hidden, so it can still record
+  window.on("close", (event) => {
+    if (isQuitting) return;
+    event.preventDefault();
+    void AppSettingsStorage.getInstance()
+      .getSettings()
+      .then(({ keepRunningInTray }) => (keepRunningInTray ? window.hide() : window.destroy()))
+      .catch(() => window.destroy());
+  });
+
+  window.on("closed", () => {
+    if (mainWindow === window) mainWindow = null;
   });
 
   if (isDev) {
-    mainWindow.loadURL("http://localhost:3000");
-    mainWindow.webContents.openDevTools();
+    window.loadURL("http://localhost:3000");
+    window.webContents.openDevTools();
   } else {
     const indexPath = join(process.resourcesPath, "app.asar.unpacked/src/ui/dist/index.html");
-    mainWindow.loadFile(indexPath).catch((err) => {
+    window.loadFile(indexPath).catch((err) => {
       console.error("Failed to load index.html:", err);
     });
   }
 };
 
+const showMainWindow = () => {
+  if (!mainWindow) {
+    createWindow();
+    return;
+  }
+  if (mainWindow.isMinimized()) mainWindow.restore();
+  mainWindow.show();
+  mainWindow.focus();
+};
+
 // Initialize IPC handlers
 let _screenRecordingHandlers: ScreenRecordingIPCHandlers;
 let _authHandlers: AuthIPCHandlers;
@@ -75,6 +109,11 @@ let _llmSettingsHandlers: LLMSettingsIPCHandlers;
 let _mcpHandlers: McpIPCHandlers;
 let _customPromptSettingsHandlers: CustomPromptSettingsIPCHandlers;
 let _processVideoHandlers: ProcessVideoIPCHandlers;
+let _runHistoryHandlers: RunHistoryIPCHandlers;
+let _appSettingsHandlers: AppSettingsIPCHandlers;
+let _webhookHandlers: WebhookIPCHandlers;
+let _usageHandlers: UsageIPCHandlers;
+let automationApi: AutomationApiServer | undefined;
 let unregisterEventForwarders: (() => void) | undefined;
 
 app.whenReady().then(async () => {
@@ -88,6 +127,14 @@ app.whenReady().then(async () => {
   _authHandlers = new AuthIPCHandlers();
   _videoHandlers = new VideoIPCHandlers();
   _processVideoHandlers = new ProcessVideoIPCHandlers();
+  _runHistoryHandlers = new RunHistoryIPCHandlers();
+  automationApi = new AutomationApiServer(_processVideoHandlers);
+  _appSettingsHandlers = new AppSettingsIPCHandlers(automationApi);
+  _webhookHandlers = new WebhookIPCHandlers();
+  _usageHandlers = new UsageIPCHandlers();
+  automationApi.applySettings().catch((err) => {
+    console.error("Error starting the automation API:", err);
+  });
 
   try {
     _llmSettingsHandlers = new LLMSettingsIPCHandlers();
@@ -106,7 +153,14 @@ app.whenReady().then(async () => {
   RecordingControlBarWindow.getInstance().initialize(isDev);
 
   unregisterEventForwarders = registerEventForwarders();
-  createWindow();
+  const { startMinimizedToTray } = await AppSettingsStorage.getInstance().getSettings();
+  createWindow({ show: !startMinimizedToTray });
+  await AppTray.getInstance()
+    .initialize(getIconPath(), showMainWindow)
+    .catch((err) => console.error("Error creating tray icon:", err));
+  await GlobalHotkeyService.getInstance()
+    .initialize(showMainWindow)
+    .catch((err) => console.error("Error registering hotkeys:", err));
 
   // Auto-updates: Check only in packaged mode (dev skips)
   if (app.isPackaged) {
@@ -123,7 +177,10 @@ const cleanup = async () => {
   isQuitting = true;
 
   unregisterEventForwarders?.();
+  AppTray.getInstance().destroy();
+  GlobalHotkeyService.getInstance().unregisterAll();
   try {
+    await automationApi?.stop();
     await RecordingService.getInstance().cleanupAllTempFiles();
   } catch (err) {
     console.error("Cleanup error:", err);
@@ -143,9 +200,7 @@ app.on("before-quit", async (event) => {
   }
 });
 
-app.on("activate", () => {
-  if (BrowserWindow.getAllWindows().length === 0) createWindow();
-});
+app.on("activate", showMainWindow);
 
 export function getMainWindow(): BrowserWindow | null {
   return mainWindow;
@@ -0,0 +1,48 @@
+import { type IpcMainInvokeEvent, ipcMain } from "electron";
+import type { AutomationApiServer } from "../automation/automation-api-server";
+import { ArtifactService } from "../services/artifacts/artifact-service";
+import { GlobalHotkeyService } from "../services/hotkeys/global-hotkey-service";
+import { type AppSettings, AppSettingsStorage } from "../services/storage/app-settings-storage";
+import { IPC_CHANNELS } from "./channels";
+
+export class AppSettingsIPCHandlers {
+  private readonly store = AppSettingsStorage.getInstance();
+  private readonly artifacts = ArtifactService.getInstance();
+  private readonly hotkeys = GlobalHotkeyService.getInstance();
+
+  constructor(private readonly automationApi: AutomationApiServer) {
+    this.registerHandlers();
+  }
+
+  private registerHandlers(): void {
+    ipcMain.handle(IPC_CHANNELS.SETTINGS_GET_APP_SETTINGS, () => this.store.getSettings());
+
+    ipcMain.handle(
+      IPC_CHANNELS.SETTINGS_UPDATE_APP_SETTINGS,
+      async (_event: IpcMainInvokeEvent, updates: Partial<AppSettings>) => {
+        if (updates.hotkeys) this.hotkeys.validate(updates.hotkeys);
+        const settings = await this.store.updateSettings(updates);
+        if (updates.hotkeys) await this.hotkeys.applySettings();
+        // A shorter retention applies to the files already kept, not just to later runs
+        if (updates.artifactRetention || updates.artifactRetentionDays) {
+          await this.artifacts.applyRetention();
+        }
+        if (updates.automationApiEnabled !== undefined || updates.automationApiPort) {
+          // enabling the API for the first time also generates its token
+          await this.automationApi.applySettings();
+          return this.store.getSettings();
+        }
+        return settings;
+      },
+    );
+
+    ipcMain.handle(IPC_CHANNELS.SETTINGS_GET_HOTKEY_STATUS, () => this.hotkeys.getStatus());
+
+    ipcMain.handle(IPC_CHANNELS.SETTINGS_REGENERATE_API_TOKEN, async () => {
+      await this.automationApi.regenerateToken();
+      return this.store.getSettings();
+    });
+
+    ipcMain.handle(IPC_CHANNELS.SETTINGS_GET_ARTIFACT_USAGE, () => this.artifacts.getUsage());
+  }
+}
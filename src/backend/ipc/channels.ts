@@ -12,6 +12,7 @@ export const IPC_CHANNELS = {
 
   // Video conversion
   SELECT_VIDEO_FILE: "select-video-file",
+  SELECT_VIDEO_FILES: "select-video-files",
   SELECT_OUTPUT_DIRECTORY: "select-output-directory",
   CONVERT_VIDEO_TO_MP3: "convert-video-to-mp3",
 
@@ -27,6 +28,9 @@ export const IPC_CHANNELS = {
   RECORDING_TIME_UPDATE: "recording-time-update",
   MINIMIZE_MAIN_WINDOW: "minimize-main-window",
   RESTORE_MAIN_WINDOW: "restore-main-window",
+  START_RECORDING_REQUEST: "start-recording-request",
+  PAUSE_RECORDING_REQUEST: "pause-recording-request",
+  CANCEL_RECORDING_REQUEST: "cancel-recording-request",
 
   // LLM
   LLM_SET_CONFIG: "llm:set-config",
@@ -37,12 +41,12 @@ export const IPC_CHANNELS = {
   // MCP
   MCP_PROCESS_MESSAGE: "mcp:process-message",
   MCP_PREFILL_PROMPT: "mcp:prefill-prompt",
-  MCP_STEP_UPDATE: "mcp:step-update",
   MCP_LIST_SERVERS: "mcp:list-servers",
   MCP_ADD_SERVER: "mcp:add-server",
   MCP_UPDATE_SERVER: "mcp:update-server",
   MCP_REMOVE_SERVER: "mcp:remove-server",
   MCP_CHECK_SERVER_HEALTH: "mcp:check-server-health",
+  MCP_RESPOND_TOOL_APPROVAL: "mcp:respond-tool-approval",
 
   // Automated workflow
   WORKFLOW_PROGRESS: "workflow:progress",
@@ -52,7 +56,21 @@ export const IPC_CHANNELS = {
 
   // Video processing - the main process pipeline
   PROCESS_VIDEO: "process-video",
+  IMPORT_VIDEO: "import-video",
   RETRY_VIDEO: "retry-video",
+  LIST_UNFINISHED_JOBS: "list-unfinished-jobs",
+  RESUME_VIDEO_JOB: "resume-video-job",
+  DISCARD_VIDEO_JOB: "discard-video-job",
+  CANCEL_PIPELINE: "cancel-pipeline",
+  SUBMIT_REVIEW: "submit-review",
+  PROCESS_VIDEO_BATCH: "process-video-batch",
+  CANCEL_BATCH: "cancel-batch",
+  BATCH_PROGRESS: "batch:progress",
+
+  // Run history
+  HISTORY_LIST_RUNS: "history:list-runs",
+  HISTORY_GET_RUN: "history:get-run",
+  HISTORY_DELETE_RUN: "history:delete-run",
 
   // Settings
   SETTINGS_GET_ALL_PROMPTS: "settings:get-all-prompts",
@@ -61,4 +79,20 @@ export const IPC_CHANNELS = {
   SETTINGS_UPDATE_PROMPT: "settings:update-prompt",
   SETTINGS_DELETE_PROMPT: "settings:delete-prompt",
   SETTINGS_SET_ACTIVE_PROMPT: "settings:set-active-prompt",
+  SETTINGS_GET_APP_SETTINGS: "settings:get-app-settings",
+  SETTINGS_UPDATE_APP_SETTINGS: "settings:update-app-settings",
+  SETTINGS_GET_ARTIFACT_USAGE: "settings:get-artifact-usage",
+  SETTINGS_REGENERATE_API_TOKEN: "settings:regenerate-api-token",
+  SETTINGS_GET_HOTKEY_STATUS: "settings:get-hotkey-status",
+
+  // Webhooks
+  WEBHOOKS_LIST: "webhooks:list",
+  WEBHOOKS_ADD: "webhooks:add",
+  WEBHOOKS_UPDATE: "webhooks:update",
+  WEBHOOKS_DELETE: "webhooks:delete",
+  WEBHOOKS_TEST: "webhooks:test",
+
+  // LLM usage
+  USAGE_GET_RUN: "usage:get-run",
+  USAGE_GET_MONTHLY: "usage:get-monthly",
 } as const;
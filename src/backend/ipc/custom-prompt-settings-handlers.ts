@@ -16,8 +16,13 @@ export class CustomPromptSettingsIPCHandlers {
     );
     ipcMain.handle(
       IPC_CHANNELS.SETTINGS_UPDATE_PROMPT,
-      (_, id: string, updates: Partial<Pick<CustomPrompt, "name" | "description" | "content">>) =>
-        this.store.updatePrompt(id, updates),
+      (
+        _,
+        id: string,
+        updates: Partial<
+          Pick<CustomPrompt, "name" | "description" | "content" | "runMode" | "models">
+        >,
+      ) => this.store.updatePrompt(id, updates),
     );
     ipcMain.handle(IPC_CHANNELS.SETTINGS_DELETE_PROMPT, (_, id: string) =>
       this.store.deletePrompt(id),
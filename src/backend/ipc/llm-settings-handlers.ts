@@ -1,10 +1,10 @@
 import { type IpcMainInvokeEvent, ipcMain } from "electron";
-import { OpenAIService } from "../services/openai/openai-service";
+import { LLMService } from "../services/llm/llm-service";
 import { IPC_CHANNELS } from "./channels";
 import { LlmStorage, type LLMConfig } from "../services/storage/llm-storage";
 
 export class LLMSettingsIPCHandlers {
-  private openAiService = OpenAIService.getInstance();
+  private llmService = LLMService.getInstance();
   private secureStorage = LlmStorage.getInstance();
 
   constructor() {
@@ -16,20 +16,12 @@ export class LLMSettingsIPCHandlers {
     try {
       const llmCfg = await this.secureStorage.getLLMConfig();
       if (llmCfg) {
-        if (llmCfg.provider === "openai") {
-          this.openAiService.setOpenAIKey(llmCfg.apiKey);
-        } else {
-          this.openAiService.setAzureConfig(
-            llmCfg.apiKey,
-            llmCfg.endpoint,
-            llmCfg.version,
-            llmCfg.deployment,
-          );
-        }
+        this.llmService.configure(llmCfg);
         return;
       }
     } catch (e) {
-      throw new Error("Failed to bootstrap stored OpenAI key");
+      // Nothing awaits the bootstrap, so report it here; the client is created again on first use
+      console.error("Failed to bootstrap stored LLM config:", e);
     }
   }
 
@@ -39,18 +31,9 @@ export class LLMSettingsIPCHandlers {
       async (_event: IpcMainInvokeEvent, config: LLMConfig) => {
         if (!config || !("provider" in config))
           throw new Error("Invalid LLM config");
+        // Reconfigure services first, which rejects an incomplete config before it is stored
+        this.llmService.configure(config);
         await this.secureStorage.storeLLMConfig(config);
-        // Reconfigure services
-        if (config.provider === "openai") {
-          this.openAiService.setOpenAIKey(config.apiKey);
-        } else {
-          this.openAiService.setAzureConfig(
-            config.apiKey,
-            config.endpoint,
-            config.version,
-            config.deployment,
-          );
-        }
         return { success: true };
       },
     );
@@ -62,12 +45,12 @@ export class LLMSettingsIPCHandlers {
 
     ipcMain.handle(IPC_CHANNELS.LLM_CLEAR_CONFIG, async () => {
       await this.secureStorage.clearLLMConfig();
-      this.openAiService.clearOpenAIClient();
+      this.llmService.clear();
       return { success: true };
     });
 
     ipcMain.handle(IPC_CHANNELS.LLM_CHECK_HEALTH, async () => {
-      return await this.openAiService.checkHealth();
+      return await this.llmService.checkHealth();
     });
   }
 }
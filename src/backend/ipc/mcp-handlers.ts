@@ -1,6 +1,7 @@
 import { BrowserWindow, type IpcMainInvokeEvent, ipcMain } from "electron";
 import type { MCPOrchestrator } from "../services/mcp/mcp-orchestrator";
-import type { MCPServerConfig } from "../services/mcp/types";
+import { ToolApprovalService } from "../services/mcp/tool-approval-service";
+import type { MCPServerConfig, ToolApprovalDecision } from "../services/mcp/types";
 import { IPC_CHANNELS } from "./channels";
 
 export class McpIPCHandlers {
@@ -47,6 +48,13 @@ export class McpIPCHandlers {
       },
     );
 
+    ipcMain.handle(
+      IPC_CHANNELS.MCP_RESPOND_TOOL_APPROVAL,
+      (_event: IpcMainInvokeEvent, approvalId: string, decision: ToolApprovalDecision) => {
+        return ToolApprovalService.getInstance().respond(approvalId, decision);
+      },
+    );
+
     ipcMain.on(IPC_CHANNELS.MCP_PREFILL_PROMPT, (_event, text: string) => {
       BrowserWindow.getAllWindows().forEach((win) => {
         if (!win.isDestroyed()) {
@@ -1,137 +1,672 @@
+import { randomUUID } from "node:crypto";
 import fs from "node:fs";
-import { BrowserWindow, type IpcMainInvokeEvent, ipcMain } from "electron";
-import tmp from "tmp";
-import type { VideoUploadResult } from "../services/auth/types";
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { app, BrowserWindow, type IpcMainInvokeEvent, ipcMain } from "electron";
+import { ERROR_MESSAGES } from "../constants/error-messages";
+import { PipelineEventEmitter } from "../events/pipeline-event-emitter";
+import { ArtifactService } from "../services/artifacts/artifact-service";
 import { YouTubeAuthService } from "../services/auth/youtube-auth";
 import { FFmpegService } from "../services/ffmpeg/ffmpeg-service";
+import { FileService, isSupportedVideoFile } from "../services/file/file-service";
+import { LLMService } from "../services/llm/llm-service";
+import {
+  buildTaskExecutionPrompt,
+  INITIAL_SUMMARY_PROMPT,
+  withMarkers,
+} from "../services/llm/prompts";
+import { describeRetry } from "../services/llm/resilient-call";
+import type { LLMClient, LLMUsage } from "../services/llm/types";
 import { MCPOrchestrator } from "../services/mcp/mcp-orchestrator";
-import { OpenAIService } from "../services/openai/openai-service";
-import { buildTaskExecutionPrompt, INITIAL_SUMMARY_PROMPT } from "../services/openai/prompts";
+import { RecordingService } from "../services/recording/recording-service";
+import { AppSettingsStorage } from "../services/storage/app-settings-storage";
 import { CustomPromptStorage } from "../services/storage/custom-prompt-storage";
-import { ProgressStage } from "../types";
-import { formatErrorMessage } from "../utils/error-utils";
+import type { LLMStage } from "../services/storage/llm-storage";
+import { type VideoJob, VideoJobStorage } from "../services/storage/video-job-storage";
+import { UsageService } from "../services/usage/usage-service";
+import {
+  type BatchItem,
+  type BatchProgress,
+  type PipelineBranch,
+  type PipelineEvent,
+  ProgressStage,
+  type ReviewDecision,
+  RUN_MODE_STEPS,
+  type RunMode,
+} from "../types";
+import { classifyPipelineError, formatErrorMessage, PipelineError } from "../utils/error-utils";
+import { getRecordingFileName, getRunTitle } from "../utils/run-utils";
 import { IPC_CHANNELS } from "./channels";
 
+export interface ProcessVideoOptions {
+  mode?: RunMode; // falls back to the active custom prompt's mode
+  markers?: number[]; // seconds into the recording the user marked while recording
+}
+
+interface RunJobOptions {
+  batchId?: string;
+  unattended?: boolean; // no one is there to review, so the run skips the review gates
+  external?: boolean; // submitted from outside the UI, so the workflow panel doesn't follow it
+  onEvent?: (event: PipelineEvent) => void;
+}
+
+// A run submitted from outside the UI: a video, or a prompt that is processed like a transcript
+export type RunSubmission = { filePath: string; mode?: RunMode } | { prompt: string };
+
 export class ProcessVideoIPCHandlers {
   private readonly youtube = YouTubeAuthService.getInstance();
-  private readonly llmClient = OpenAIService.getInstance(); // TODO: make generic interface for different LLMs https://github.com/SSWConsulting/SSW.YakShaver/issues/3011
+  private readonly llmClient: LLMClient = LLMService.getInstance();
   private ffmpegService = FFmpegService.getInstance();
+  private readonly fileService = FileService.getInstance();
   private readonly mcpOrchestrator: MCPOrchestrator;
   private readonly customPromptStorage = CustomPromptStorage.getInstance();
+  private readonly jobStorage = VideoJobStorage.getInstance();
+  private readonly recordingService = RecordingService.getInstance();
+  private readonly appSettingsStorage = AppSettingsStorage.getInstance();
+  private readonly artifacts = ArtifactService.getInstance();
+  private readonly usage = UsageService.getInstance();
+  private readonly activeRuns = new Map<string, AbortController>();
+  private readonly pendingReviews = new Map<string, (decision: ReviewDecision) => void>();
+  private readonly activeBatches = new Map<string, BatchProgress>();
 
   constructor() {
     this.mcpOrchestrator = new MCPOrchestrator({}, this.llmClient);
     this.registerHandlers();
+    void this.jobStorage
+      .markRunningJobsInterrupted()
+      .catch((e) => console.error("Failed to mark interrupted video jobs:", e));
+    void this.artifacts
+      .applyRetention()
+      .catch((e) => console.error("Failed to clean up run artifacts:", e));
   }
 
   private registerHandlers(): void {
-    ipcMain.handle(IPC_CHANNELS.PROCESS_VIDEO, async (event, filePath?: string) => {
-      if (!filePath) {
-        throw new Error("video-process-handler: Video file path is required");
+    ipcMain.handle(
+      IPC_CHANNELS.PROCESS_VIDEO,
+      async (_event, filePath?: string, options?: ProcessVideoOptions) => {
+        if (!filePath) {
+          throw new Error("video-process-handler: Video file path is required");
+        }
+
+        // check file exists
+        if (!fs.existsSync(filePath)) {
+          throw new Error("video-process-handler: Video file does not exist");
+        }
+
+        // the job owns the recording from here on, so it must survive app cleanup for resuming
+        this.recordingService.releaseTempFile(filePath);
+        const job = await this.jobStorage.createJob(filePath, {
+          mode: await this.resolveRunMode(options?.mode),
+          markers: options?.markers,
+        });
+        await this.artifacts.track(job.id, "recording", filePath);
+        return this.runJob(job);
+      },
+    );
+
+    ipcMain.handle(
+      IPC_CHANNELS.IMPORT_VIDEO,
+      async (_event, filePath?: string, options?: ProcessVideoOptions) => {
+        const job = await this.createImportJob(filePath, options?.mode);
+        return this.runJob(job);
+      },
+    );
+
+    ipcMain.handle(IPC_CHANNELS.LIST_UNFINISHED_JOBS, () => this.jobStorage.getUnfinishedJobs());
+
+    ipcMain.handle(IPC_CHANNELS.RESUME_VIDEO_JOB, async (_event, jobId: string) => {
+      const job = await this.jobStorage.getJob(jobId);
+      if (!job) {
+        throw new Error(`video-process-handler: Job '${jobId}' not found`);
+      }
+      // a second resume would run the job twice, and take over the first run's cancellation
+      if ((job.status !== "interrupted" && job.status !== "failed") || this.activeRuns.has(jobId)) {
+        throw new Error("video-process-handler: Only an interrupted or failed job can be resumed");
       }
+      return this.runJob(job);
+    });
 
-      // check file exists
-      if (!fs.existsSync(filePath)) {
-        throw new Error("video-process-handler: Video file does not exist");
+    ipcMain.handle(IPC_CHANNELS.DISCARD_VIDEO_JOB, async (_event, jobId: string) => {
+      const job = await this.jobStorage.getJob(jobId);
+      if (!job) return false;
+      if (this.activeRuns.has(jobId) || job.status === "running") {
+        throw new Error("Cannot discard a run that is still in progress");
       }
 
-      // upload to YouTube
-      const youtubeResult = await this.youtube.uploadVideo(filePath);
-      this.emitProgress(ProgressStage.UPLOAD_COMPLETED, { uploadResult: youtubeResult });
+      await this.artifacts.removeRunArtifacts(jobId);
+      return this.jobStorage.deleteJob(jobId);
+    });
 
-      // convert video to mp3
-      this.emitProgress(ProgressStage.CONVERTING_AUDIO);
-      const mp3FilePath = await this.convertVideoToMp3(filePath);
+    ipcMain.handle(IPC_CHANNELS.CANCEL_PIPELINE, (_event, runId?: string) =>
+      this.cancelPipeline(runId),
+    );
 
-      // transcribe the video via MCP
-      this.emitProgress(ProgressStage.TRANSCRIBING);
-      const transcript = await this.llmClient.transcribeAudio(mp3FilePath);
-      this.emitProgress(ProgressStage.TRANSCRIPTION_COMPLETED, { transcript });
+    ipcMain.handle(
+      IPC_CHANNELS.SUBMIT_REVIEW,
+      (_event, runId: string, decision: ReviewDecision) => {
+        const resolveReview = this.pendingReviews.get(runId);
+        if (!resolveReview) return false;
 
-      this.emitProgress(ProgressStage.GENERATING_TASK, { transcript });
+        resolveReview(decision);
+        return true;
+      },
+    );
 
-      // generate intermediate summary
-      const intermediateOutput = await this.llmClient.generateOutput(
-        INITIAL_SUMMARY_PROMPT,
-        transcript,
-        { jsonMode: true },
-      );
-      this.emitProgress(ProgressStage.EXECUTING_TASK, {
+    ipcMain.handle(
+      IPC_CHANNELS.PROCESS_VIDEO_BATCH,
+      async (_event, paths?: string[], options?: ProcessVideoOptions) => {
+        if (!paths?.length) {
+          throw new Error("video-process-handler: At least one video or folder is required");
+        }
+        return this.runBatch(paths, options);
+      },
+    );
+
+    ipcMain.handle(IPC_CHANNELS.CANCEL_BATCH, (_event, batchId: string) =>
+      this.cancelBatch(batchId),
+    );
+
+    // Retry a failed run from the stage that failed; earlier stages are kept as checkpoints
+    ipcMain.handle(IPC_CHANNELS.RETRY_VIDEO, async (_event: IpcMainInvokeEvent, runId: string) => {
+      const job = await this.jobStorage.getJob(runId);
+      if (!job) {
+        throw new Error(`video-process-handler: Run '${runId}' not found`);
+      }
+      if (job.status !== "failed" || this.activeRuns.has(runId)) {
+        throw new Error("video-process-handler: Only a failed run can be retried");
+      }
+      return this.runJob(job);
+    });
+  }
+
+  /**
+   * Start a run for a caller outside the UI, like the automation API, without waiting for it to
+   * finish. Nobody is there to review these runs, so they skip the review gates.
+   * A prompt skips the video stages and is summarized as the run's transcript.
+   */
+  async submitRun(submission: RunSubmission): Promise<string> {
+    let job: VideoJob;
+    if ("prompt" in submission) {
+      if (!submission.prompt.trim()) {
+        throw new Error("video-process-handler: Prompt is required");
+      }
+      job = await this.jobStorage.createJob("", { imported: true, mode: "local_only" });
+      await this.jobStorage.saveCheckpoint(job.id, "transcript", submission.prompt);
+    } else {
+      job = await this.createImportJob(submission.filePath, submission.mode);
+    }
+
+    void this.runJob(job, { unattended: true, external: true }).catch((e) =>
+      console.error(`Submitted run '${job.id}' failed:`, e),
+    );
+    return job.id;
+  }
+
+  private async createImportJob(filePath?: string, mode?: RunMode): Promise<VideoJob> {
+    if (!filePath) {
+      throw new Error("video-process-handler: Video file path is required");
+    }
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error("video-process-handler: Video file does not exist");
+    }
+
+    if (!isSupportedVideoFile(filePath)) {
+      throw new Error("video-process-handler: Only mp4, mov, mkv and webm files can be imported");
+    }
+
+    return this.jobStorage.createJob(filePath, {
+      imported: true,
+      mode: await this.resolveRunMode(mode),
+    });
+  }
+
+  /**
+   * Run a job from its last checkpoint. Every completed stage is persisted before moving on,
+   * so a crash, quit or failure only loses the stage that was in flight.
+   * The upload and the audio transcription don't depend on each other, so they run in parallel
+   * and join before the task is generated. The job's run mode decides which stages run at all.
+   */
+  private async runJob(
+    job: VideoJob,
+    { batchId, unattended, external, onEvent }: RunJobOptions = {},
+  ) {
+    const { id: runId, checkpoints } = job;
+    const mode = job.mode ?? "full";
+    const steps = RUN_MODE_STEPS[mode];
+    const events = new PipelineEventEmitter({ runId, mode, batchId, external }, onEvent);
+
+    const { signal } = this.startRun(runId);
+
+    let failedBranch: PipelineBranch | undefined;
+    try {
+      await this.jobStorage.updateJob(runId, { status: "running", error: undefined });
+
+      // Let both branches settle before failing, so a failed branch doesn't leave its sibling
+      // reporting progress for a run that has already ended; whatever it finished is still
+      // checkpointed for a later resume
+      const [upload, transcription] = await Promise.allSettled([
+        steps.upload ? this.runUploadBranch(job, signal, events) : undefined,
+        steps.transcribe ? this.runTranscriptionBranch(job, signal, events) : undefined,
+      ]);
+      if (upload.status === "rejected") {
+        failedBranch = "upload";
+        throw upload.reason;
+      }
+      if (transcription.status === "rejected") {
+        failedBranch = "transcription";
+        throw transcription.reason;
+      }
+      const youtubeResult = upload.value;
+      let transcript = transcription.value;
+
+      const settings = await this.appSettingsStorage.getSettings();
+      const reviewTranscript = settings.reviewTranscript && !unattended;
+      const reviewSummary = settings.reviewSummary && !unattended;
+      let intermediateOutput = checkpoints.intermediateOutput;
+      let mcpResult = checkpoints.mcpResult;
+
+      if (steps.summarize && transcript) {
+        // optional review gate: let the user correct the transcript before it is summarized
+        if (reviewTranscript && !intermediateOutput) {
+          const original = transcript;
+          const review = await this.waitForReview(
+            runId,
+            () => events.emit(ProgressStage.REVIEWING_TRANSCRIPT, { transcript: original }),
+            signal,
+          );
+          if (review.action === "continue" && review.content !== transcript) {
+            transcript = review.content;
+            await this.jobStorage.saveCheckpoint(runId, "transcript", transcript);
+          }
+        }
+
+        // generate intermediate summary, as often as the user asks for it at the review gate
+        while (true) {
+          events.emit(ProgressStage.GENERATING_TASK, { transcript });
+          if (!intermediateOutput) {
+            signal.throwIfAborted();
+            const summarized = transcript;
+            const customPrompt = await this.customPromptStorage.getActivePrompt();
+            intermediateOutput = await this.llmClient.generateOutput(
+              INITIAL_SUMMARY_PROMPT,
+              withMarkers(transcript, job.markers),
+              {
+                jsonMode: true,
+                model: customPrompt?.models?.summary,
+                signal,
+                onUsage: this.recordUsage(runId, "summary"),
+                onRetry: (retry) =>
+                  events.emit(ProgressStage.GENERATING_TASK, {
+                    transcript: summarized,
+                    retry: describeRetry(retry),
+                  }),
+              },
+            );
+            await this.jobStorage.saveCheckpoint(runId, "intermediateOutput", intermediateOutput);
+          }
+
+          // the summary is only worth reviewing when a task will be executed from it
+          if (!reviewSummary || !steps.execute || mcpResult) break;
+
+          const reviewed = { transcript, intermediateOutput };
+          const review = await this.waitForReview(
+            runId,
+            () => events.emit(ProgressStage.REVIEWING_SUMMARY, reviewed),
+            signal,
+          );
+          if (review.action === "regenerate") {
+            intermediateOutput = undefined;
+            continue;
+          }
+          if (review.content !== intermediateOutput) {
+            intermediateOutput = review.content;
+            await this.jobStorage.saveCheckpoint(runId, "intermediateOutput", intermediateOutput);
+          }
+          break;
+        }
+      }
+
+      // process transcription with MCP
+      if (steps.execute && intermediateOutput) {
+        events.emit(ProgressStage.EXECUTING_TASK, { transcript, intermediateOutput });
+
+        if (!mcpResult) {
+          signal.throwIfAborted();
+          const customPrompt = await this.customPromptStorage.getActivePrompt();
+          const systemPrompt = buildTaskExecutionPrompt(customPrompt?.content);
+
+          mcpResult = await this.mcpOrchestrator.processMessage(intermediateOutput, youtubeResult, {
+            systemPrompt,
+            signal,
+            model: customPrompt?.models?.taskExecution,
+            onUsage: this.recordUsage(runId, "taskExecution"),
+            onStep: (step) => {
+              events.emitStep(step);
+              // only the finished version of a streamed step is kept for the run history
+              if (step.partial) return;
+              void this.jobStorage
+                .appendStep(runId, step)
+                .catch((e) => console.error("Failed to record step event:", e));
+            },
+          });
+          await this.jobStorage.saveCheckpoint(runId, "mcpResult", mcpResult);
+        }
+      }
+
+      // a run that doesn't upload the video keeps it on disk as its result
+      const savedVideo = await this.saveRunVideo(job, !steps.upload);
+      // completed before the event goes out, so its listeners find the run finished
+      await this.jobStorage.updateJob(runId, { status: "completed" });
+      events.emit(ProgressStage.COMPLETED, {
         transcript,
         intermediateOutput,
+        finalOutput: steps.execute ? mcpResult?.final : (intermediateOutput ?? transcript),
+        ...savedVideo,
       });
 
-      // process transcription with MCP
+      await this.artifacts
+        .applyRetention()
+        .catch((e) => console.error("Failed to clean up run artifacts:", e));
+
+      return { runId, youtubeResult, mcpResult };
+    } catch (error) {
+      if (signal.aborted) {
+        await this.artifacts.removeRunArtifacts(runId);
+        await this.jobStorage.updateJob(runId, { status: "cancelled" });
+        events.emit(ProgressStage.CANCELLED, {});
+        return { runId, cancelled: true };
+      }
+      // The run's files are kept, so it can be retried from the stage that failed
+      const failure = classifyPipelineError(error, events.getCurrentStage(failedBranch));
+      await this.jobStorage
+        .updateJob(runId, { status: "failed", error: failure.error })
+        .catch((e) => console.error("Failed to mark video job failed:", e));
+      events.emit(ProgressStage.ERROR, failure);
+      throw new PipelineError(failure.code, failure.error, { cause: error });
+    } finally {
+      this.activeRuns.delete(runId);
+    }
+  }
+
+  private async runUploadBranch(job: VideoJob, signal: AbortSignal, events: PipelineEventEmitter) {
+    const { id: runId, filePath, checkpoints } = job;
+    const branch = "upload";
+
+    let youtubeResult = checkpoints.uploadResult;
+    if (!youtubeResult) {
+      events.emit(ProgressStage.UPLOADING, { branch });
+      youtubeResult = await this.youtube.uploadVideo(filePath, signal);
+      if (!youtubeResult.success) {
+        throw new Error(youtubeResult.error ?? ERROR_MESSAGES.UPLOAD_FAILED);
+      }
+      await this.jobStorage.saveCheckpoint(runId, "uploadResult", youtubeResult);
+    }
+    events.emit(ProgressStage.UPLOAD_COMPLETED, { branch, uploadResult: youtubeResult });
+    return youtubeResult;
+  }
+
+  private async runTranscriptionBranch(
+    job: VideoJob,
+    signal: AbortSignal,
+    events: PipelineEventEmitter,
+  ) {
+    const { id: runId, filePath, checkpoints } = job;
+    const branch = "transcription";
+
+    let transcript = checkpoints.transcript;
+    if (!transcript) {
+      // convert video to mp3
+      signal.throwIfAborted();
+      events.emit(ProgressStage.CONVERTING_AUDIO, { branch });
+      let mp3FilePath = checkpoints.mp3FilePath;
+      if (!mp3FilePath || !fs.existsSync(mp3FilePath)) {
+        mp3FilePath = await this.artifacts.createPath(runId, "audio", ".mp3");
+        await this.ffmpegService.ConvertVideoToMp3(filePath, mp3FilePath, undefined, signal);
+        await this.jobStorage.saveCheckpoint(runId, "mp3FilePath", mp3FilePath);
+      }
+
+      // transcribe the video via MCP
+      signal.throwIfAborted();
+      events.emit(ProgressStage.TRANSCRIBING, { branch });
       const customPrompt = await this.customPromptStorage.getActivePrompt();
-      const systemPrompt = buildTaskExecutionPrompt(customPrompt?.content);
+      // every event of the stage repeats the chunks done so far
+      let chunks: { completed: number; total: number } | undefined;
+      transcript = await this.llmClient.transcribeAudio(mp3FilePath, {
+        model: customPrompt?.models?.transcription,
+        signal,
+        onUsage: this.recordUsage(runId, "transcription"),
+        onProgress: ({ completedChunks, totalChunks }) => {
+          chunks = { completed: completedChunks, total: totalChunks };
+          events.emit(ProgressStage.TRANSCRIBING, { branch, chunks });
+        },
+        onRetry: (retry) =>
+          events.emit(ProgressStage.TRANSCRIBING, { branch, chunks, retry: describeRetry(retry) }),
+      });
+      await this.jobStorage.saveCheckpoint(runId, "transcript", transcript);
+    }
+    events.emit(ProgressStage.TRANSCRIPTION_COMPLETED, { branch, transcript });
+    return transcript;
+  }
 
-      const mcpResult = await this.mcpOrchestrator.processMessage(
-        intermediateOutput,
-        youtubeResult,
-        { systemPrompt },
+  // Logs what each LLM call of the stage used, without holding up or failing the run
+  private recordUsage(runId: string, stage: LLMStage) {
+    return (usage: LLMUsage) => {
+      void this.usage
+        .record(runId, stage, usage)
+        .catch((e) => console.error("Failed to record LLM usage:", e));
+    };
+  }
+
+  /**
+   * Save the run's recording where the user keeps it. A video the run keeps as its result is
+   * reported by its saved copy, as the recording itself is in the temp folder.
+   */
+  private async saveRunVideo(
+    job: VideoJob,
+    keepVideo: boolean,
+  ): Promise<{ videoFilePath?: string; recordingCopyPath?: string; recordingCopyError?: string }> {
+    const recordingCopy = await this.saveRecordingCopy(job, keepVideo);
+    if (!keepVideo) return recordingCopy;
+    // prompt runs are imported without a video
+    if (job.imported) return job.filePath ? { videoFilePath: job.filePath } : {};
+    if (recordingCopy.recordingCopyPath) return { videoFilePath: recordingCopy.recordingCopyPath };
+
+    // Without a copy the recording is all there is, so the run stops cleaning it up
+    await this.artifacts.release(job.id, job.filePath);
+    return {
+      videoFilePath: job.filePath,
+      recordingCopyError: `${recordingCopy.recordingCopyError}. The video is only in the temp folder, which can be cleaned up at any time`,
+    };
+  }
+
+  /**
+   * Save a copy of the run's recording to the recordings folder, named from the run's result.
+   * A recording the run keeps as its result is saved to the user's videos folder when no
+   * recordings folder is set. A failed copy is reported with the completed run rather than
+   * failing it.
+   */
+  private async saveRecordingCopy(
+    job: VideoJob,
+    keepVideo: boolean,
+  ): Promise<{ recordingCopyPath?: string; recordingCopyError?: string }> {
+    const { recordingsFolder, recordingFileNameTemplate } =
+      await this.appSettingsStorage.getSettings();
+    // imported videos are the user's own files already
+    if ((!recordingsFolder && !keepVideo) || job.imported) return {};
+
+    try {
+      let folder = recordingsFolder;
+      if (!folder) {
+        folder = join(app.getPath("videos"), "YakShaver");
+        await mkdir(folder, { recursive: true });
+      }
+      const customPrompt = await this.customPromptStorage.getActivePrompt();
+      const finishedJob = (await this.jobStorage.getJob(job.id)) ?? job;
+      const fileName = getRecordingFileName(
+        finishedJob,
+        recordingFileNameTemplate,
+        customPrompt?.name ?? "Default",
       );
+      return {
+        recordingCopyPath: await this.fileService.copyToFolder(job.filePath, folder, fileName),
+      };
+    } catch (error) {
+      console.error("Failed to save a copy of the recording:", error);
+      return { recordingCopyError: formatErrorMessage(error) };
+    }
+  }
 
-      this.emitProgress(ProgressStage.COMPLETED, {
-        transcript,
-        intermediateOutput,
-        mcpResult,
-        finalOutput: mcpResult.final,
+  /**
+   * Queue the videos in the given files and folders through the pipeline, running at most
+   * `batchConcurrency` of them at once. Resolves with every item's outcome once all have settled.
+   */
+  private async runBatch(paths: string[], options?: ProcessVideoOptions): Promise<BatchProgress> {
+    const filePaths = await this.fileService.collectVideoFiles(paths);
+    if (!filePaths.length) {
+      throw new Error("video-process-handler: No mp4, mov, mkv or webm videos found to process");
+    }
+
+    const mode = await this.resolveRunMode(options?.mode);
+    const { batchConcurrency } = await this.appSettingsStorage.getSettings();
+    const batch: BatchProgress = {
+      batchId: randomUUID(),
+      items: filePaths.map((filePath) => ({ filePath, status: "queued" })),
+      finished: false,
+    };
+    this.activeBatches.set(batch.batchId, batch);
+    this.emitBatchProgress(batch);
+
+    const queue = [...batch.items];
+    const worker = async () => {
+      for (let item = queue.shift(); item; item = queue.shift()) {
+        // cancelling the batch marks the items still queued as cancelled
+        if (item.status === "queued") await this.runBatchItem(batch, item, mode);
+      }
+    };
+
+    try {
+      await Promise.all(
+        Array.from({ length: Math.max(1, Math.min(batchConcurrency, queue.length)) }, worker),
+      );
+    } finally {
+      batch.finished = true;
+      this.activeBatches.delete(batch.batchId);
+      this.emitBatchProgress(batch);
+    }
+    return batch;
+  }
+
+  private async runBatchItem(batch: BatchProgress, item: BatchItem, mode: RunMode) {
+    const update = (changes: Partial<BatchItem>) => {
+      Object.assign(item, changes);
+      this.emitBatchProgress(batch);
+    };
+
+    try {
+      // the videos belong to the user, so the jobs never delete them
+      const job = await this.jobStorage.createJob(item.filePath, { imported: true, mode });
+      update({ runId: job.id, status: "running" });
+
+      const result = await this.runJob(job, {
+        batchId: batch.batchId,
+        unattended: true,
+        onEvent: (event) => {
+          if (event.kind === "stage") update({ stage: event.stage });
+        },
       });
+      if ("cancelled" in result) {
+        update({ status: "cancelled" });
+        return;
+      }
 
-      // delete the temporary video file
-      fs.unlinkSync(filePath);
+      const finishedJob = await this.jobStorage.getJob(job.id);
+      update({
+        status: "completed",
+        title: finishedJob ? getRunTitle(finishedJob) : undefined,
+        videoUrl: result.youtubeResult?.data?.url,
+      });
+    } catch (error) {
+      update({ status: "failed", error: formatErrorMessage(error) });
+    }
+  }
 
-      return { youtubeResult, mcpResult };
-    });
+  private cancelBatch(batchId: string): boolean {
+    const batch = this.activeBatches.get(batchId);
+    if (!batch) return false;
 
-    // Retry video pipeline
-    ipcMain.handle(
-      IPC_CHANNELS.RETRY_VIDEO,
-      async (
-        _event: IpcMainInvokeEvent,
-        intermediateOutput: string,
-        videoUploadResult: VideoUploadResult,
-      ) => {
-        try {
-          this.emitProgress(ProgressStage.EXECUTING_TASK);
+    for (const item of batch.items) {
+      if (item.status === "queued") item.status = "cancelled";
+      if (item.status === "running") this.cancelPipeline(item.runId);
+    }
+    this.emitBatchProgress(batch);
+    return true;
+  }
 
-          const customPrompt = await this.customPromptStorage.getActivePrompt();
-          const systemPrompt = buildTaskExecutionPrompt(customPrompt?.content);
+  /**
+   * Pause the run at a review gate until the user continues or asks for a regeneration.
+   * `onWaiting` announces the gate once the run is ready to receive the decision.
+   * Cancelling the run rejects the wait like any other stage.
+   */
+  private waitForReview(
+    runId: string,
+    onWaiting: () => void,
+    signal: AbortSignal,
+  ): Promise<ReviewDecision> {
+    signal.throwIfAborted();
 
-          const mcpResult = await this.mcpOrchestrator.processMessage(
-            intermediateOutput,
-            videoUploadResult,
-            { systemPrompt },
-          );
+    return new Promise<ReviewDecision>((resolve, reject) => {
+      const onAbort = () => {
+        this.pendingReviews.delete(runId);
+        reject(signal.reason);
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
 
-          this.emitProgress(ProgressStage.COMPLETED, {
-            mcpResult,
-            finalOutput: mcpResult.final,
-          });
-          return { success: true, mcpResult };
-        } catch (error) {
-          const errorMessage = formatErrorMessage(error);
-          this.emitProgress(ProgressStage.ERROR, { error: errorMessage });
-          return { success: false, error: errorMessage };
-        }
-      },
-    );
+      this.pendingReviews.set(runId, (decision) => {
+        signal.removeEventListener("abort", onAbort);
+        this.pendingReviews.delete(runId);
+        resolve(decision);
+      });
+      onWaiting();
+    });
+  }
+
+  /**
+   * A mode chosen for the run wins over the active custom prompt's mode.
+   */
+  private async resolveRunMode(mode?: RunMode): Promise<RunMode> {
+    if (mode) return mode;
+    const customPrompt = await this.customPromptStorage.getActivePrompt();
+    return customPrompt?.runMode ?? "full";
   }
 
-  private async convertVideoToMp3(inputPath: string): Promise<string> {
-    const outputFilePath = tmp.tmpNameSync({ postfix: ".mp3" });
-    const result = await this.ffmpegService.ConvertVideoToMp3(inputPath, outputFilePath);
-    return result;
+  private startRun(runId: string): AbortController {
+    const controller = new AbortController();
+    this.activeRuns.set(runId, controller);
+    return controller;
   }
 
-  private emitProgress(stage: string, data?: Record<string, unknown>) {
+  /**
+   * Abort the given run, or every active run when no ID is given.
+   * The in-flight stage stops (ffmpeg is killed, HTTP requests are aborted) and the run
+   * reports a cancelled stage once it has unwound.
+   */
+  private cancelPipeline(runId?: string): boolean {
+    const controllers = runId
+      ? [this.activeRuns.get(runId)].filter((c) => c !== undefined)
+      : [...this.activeRuns.values()];
+
+    for (const controller of controllers) {
+      controller.abort();
+    }
+    return controllers.length > 0;
+  }
+
+  private emitBatchProgress(batch: BatchProgress) {
     BrowserWindow.getAllWindows()
       .filter((win) => !win.isDestroyed())
       .forEach((win) => {
-        win.webContents.send(IPC_CHANNELS.WORKFLOW_PROGRESS, {
-          stage,
-          ...data,
-        });
+        win.webContents.send(IPC_CHANNELS.BATCH_PROGRESS, batch);
       });
   }
 }
@@ -0,0 +1,51 @@
+import { type IpcMainInvokeEvent, ipcMain } from "electron";
+import { ArtifactService } from "../services/artifacts/artifact-service";
+import { VideoJobStorage } from "../services/storage/video-job-storage";
+import { matchesRunQuery, type RunSummary, toRunSummary } from "../utils/run-utils";
+import { IPC_CHANNELS } from "./channels";
+
+export class RunHistoryIPCHandlers {
+  private readonly jobStorage = VideoJobStorage.getInstance();
+  private readonly artifacts = ArtifactService.getInstance();
+
+  constructor() {
+    this.registerHandlers();
+  }
+
+  private registerHandlers(): void {
+    ipcMain.handle(
+      IPC_CHANNELS.HISTORY_LIST_RUNS,
+      async (_event: IpcMainInvokeEvent, query?: string) => this.listRuns(query),
+    );
+
+    ipcMain.handle(IPC_CHANNELS.HISTORY_GET_RUN, (_event: IpcMainInvokeEvent, runId: string) =>
+      this.jobStorage.getJob(runId),
+    );
+
+    ipcMain.handle(
+      IPC_CHANNELS.HISTORY_DELETE_RUN,
+      async (_event: IpcMainInvokeEvent, runId: string) => {
+        const job = await this.jobStorage.getJob(runId);
+        if (!job) return false;
+        if (job.status === "running") {
+          throw new Error("Cannot delete a run that is still in progress");
+        }
+
+        // Imported videos, and videos a completed run kept instead of uploading, belong to the
+        // user and were never the run's to remove
+        await this.artifacts.removeRunArtifacts(runId);
+        return this.jobStorage.deleteJob(runId);
+      },
+    );
+  }
+
+  private async listRuns(query?: string): Promise<RunSummary[]> {
+    const jobs = await this.jobStorage.getAllJobs();
+    const normalizedQuery = query?.trim().toLowerCase();
+    const matching = normalizedQuery
+      ? jobs.filter((job) => matchesRunQuery(job, normalizedQuery))
+      : jobs;
+
+    return matching.map(toRunSummary);
+  }
+}
@@ -0,0 +1,12 @@
+import { ipcMain } from "electron";
+import { UsageService } from "../services/usage/usage-service";
+import { IPC_CHANNELS } from "./channels";
+
+export class UsageIPCHandlers {
+  private readonly usage = UsageService.getInstance();
+
+  constructor() {
+    ipcMain.handle(IPC_CHANNELS.USAGE_GET_RUN, (_, runId: string) => this.usage.getRunUsage(runId));
+    ipcMain.handle(IPC_CHANNELS.USAGE_GET_MONTHLY, () => this.usage.getMonthlyUsage());
+  }
+}
@@ -18,6 +18,8 @@ export class VideoIPCHandlers {
       return result;
     });
 
+    ipcMain.handle(IPC_CHANNELS.SELECT_VIDEO_FILES, () => this.FileService.selectFiles());
+
     ipcMain.handle(IPC_CHANNELS.SELECT_OUTPUT_DIRECTORY, async () => {
       const result = await this.FileService.selectDirectory();
       return result;
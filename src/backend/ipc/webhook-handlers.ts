@@ -0,0 +1,42 @@
+import { ipcMain } from "electron";
+import {
+  type Webhook,
+  type WebhookInput,
+  WebhookStorage,
+} from "../services/storage/webhook-storage";
+import { WebhookService } from "../services/webhooks/webhook-service";
+import { IPC_CHANNELS } from "./channels";
+
+const assertWebhookUrl = (url: string) => {
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    throw new Error("webhook-handlers: Webhook URL is not a valid URL");
+  }
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new Error("webhook-handlers: Webhook URL must use http or https");
+  }
+};
+
+export class WebhookIPCHandlers {
+  private readonly store = WebhookStorage.getInstance();
+  private readonly webhooks = WebhookService.getInstance();
+
+  constructor() {
+    ipcMain.handle(IPC_CHANNELS.WEBHOOKS_LIST, () => this.store.getWebhooks());
+    ipcMain.handle(IPC_CHANNELS.WEBHOOKS_ADD, (_, input: WebhookInput) => {
+      assertWebhookUrl(input.url);
+      return this.store.addWebhook(input);
+    });
+    ipcMain.handle(
+      IPC_CHANNELS.WEBHOOKS_UPDATE,
+      (_, id: string, updates: Partial<Pick<Webhook, "url" | "secret" | "events" | "enabled">>) => {
+        if (updates.url !== undefined) assertWebhookUrl(updates.url);
+        return this.store.updateWebhook(id, updates);
+      },
+    );
+    ipcMain.handle(IPC_CHANNELS.WEBHOOKS_DELETE, (_, id: string) => this.store.deleteWebhook(id));
+    ipcMain.handle(IPC_CHANNELS.WEBHOOKS_TEST, (_, id: string) => this.webhooks.sendTest(id));
+  }
+}
@@ -1,6 +1,11 @@
-import { contextBridge, type IpcRendererEvent, ipcRenderer } from "electron";
+import { contextBridge, type IpcRendererEvent, ipcRenderer, webUtils } from "electron";
+import type { ProcessVideoOptions } from "./ipc/process-video-handlers";
 import type { VideoUploadResult } from "./services/auth/types";
-import type { MCPServerConfig } from "./services/mcp/types";
+import type { MCPServerConfig, ToolApprovalDecision } from "./services/mcp/types";
+import type { AppSettings } from "./services/storage/app-settings-storage";
+import type { LLMStageModels } from "./services/storage/llm-storage";
+import type { Webhook, WebhookInput } from "./services/storage/webhook-storage";
+import type { BatchProgress, PipelineEvent, ReviewDecision, RunMode } from "./types";
 
 // TODO: the IPC_CHANNELS constant is repeated in the channels.ts file;
 // Need to make single source of truth
@@ -19,6 +24,7 @@ const IPC_CHANNELS = {
 
   // Video conversion
   SELECT_VIDEO_FILE: "select-video-file",
+  SELECT_VIDEO_FILES: "select-video-files",
   SELECT_OUTPUT_DIRECTORY: "select-output-directory",
   CONVERT_VIDEO_TO_MP3: "convert-video-to-mp3",
 
@@ -33,6 +39,9 @@ const IPC_CHANNELS = {
   HIDE_CONTROL_BAR: "hide-control-bar",
   MINIMIZE_MAIN_WINDOW: "minimize-main-window",
   RESTORE_MAIN_WINDOW: "restore-main-window",
+  START_RECORDING_REQUEST: "start-recording-request",
+  PAUSE_RECORDING_REQUEST: "pause-recording-request",
+  CANCEL_RECORDING_REQUEST: "cancel-recording-request",
 
   // LLM
   LLM_SET_CONFIG: "llm:set-config",
@@ -43,12 +52,12 @@ const IPC_CHANNELS = {
   // MCP
   MCP_PROCESS_MESSAGE: "mcp:process-message",
   MCP_PREFILL_PROMPT: "mcp:prefill-prompt",
-  MCP_STEP_UPDATE: "mcp:step-update",
   MCP_LIST_SERVERS: "mcp:list-servers",
   MCP_ADD_SERVER: "mcp:add-server",
   MCP_UPDATE_SERVER: "mcp:update-server",
   MCP_REMOVE_SERVER: "mcp:remove-server",
   MCP_CHECK_SERVER_HEALTH: "mcp:check-server-health",
+  MCP_RESPOND_TOOL_APPROVAL: "mcp:respond-tool-approval",
 
   // Automated workflow
   WORKFLOW_PROGRESS: "workflow:progress",
@@ -58,7 +67,21 @@ const IPC_CHANNELS = {
 
   // Video processing - the main process pipeline
   PROCESS_VIDEO: "process-video",
+  IMPORT_VIDEO: "import-video",
   RETRY_VIDEO: "retry-video",
+  LIST_UNFINISHED_JOBS: "list-unfinished-jobs",
+  RESUME_VIDEO_JOB: "resume-video-job",
+  DISCARD_VIDEO_JOB: "discard-video-job",
+  CANCEL_PIPELINE: "cancel-pipeline",
+  SUBMIT_REVIEW: "submit-review",
+  PROCESS_VIDEO_BATCH: "process-video-batch",
+  CANCEL_BATCH: "cancel-batch",
+  BATCH_PROGRESS: "batch:progress",
+
+  // Run history
+  HISTORY_LIST_RUNS: "history:list-runs",
+  HISTORY_GET_RUN: "history:get-run",
+  HISTORY_DELETE_RUN: "history:delete-run",
 
   // Settings
   SETTINGS_GET_ALL_PROMPTS: "settings:get-all-prompts",
@@ -67,6 +90,22 @@ const IPC_CHANNELS = {
   SETTINGS_UPDATE_PROMPT: "settings:update-prompt",
   SETTINGS_DELETE_PROMPT: "settings:delete-prompt",
   SETTINGS_SET_ACTIVE_PROMPT: "settings:set-active-prompt",
+  SETTINGS_GET_APP_SETTINGS: "settings:get-app-settings",
+  SETTINGS_UPDATE_APP_SETTINGS: "settings:update-app-settings",
+  SETTINGS_GET_ARTIFACT_USAGE: "settings:get-artifact-usage",
+  SETTINGS_REGENERATE_API_TOKEN: "settings:regenerate-api-token",
+  SETTINGS_GET_HOTKEY_STATUS: "settings:get-hotkey-status",
+
+  // Webhooks
+  WEBHOOKS_LIST: "webhooks:list",
+  WEBHOOKS_ADD: "webhooks:add",
+  WEBHOOKS_UPDATE: "webhooks:update",
+  WEBHOOKS_DELETE: "webhooks:delete",
+  WEBHOOKS_TEST: "webhooks:test",
+
+  // LLM usage
+  USAGE_GET_RUN: "usage:get-run",
+  USAGE_GET_MONTHLY: "usage:get-monthly",
 } as const;
 
 const onIpcEvent = <T>(channel: string, callback: (payload: T) => void) => {
@@ -77,9 +116,22 @@ const onIpcEvent = <T>(channel: string, callback: (payload: T) => void) => {
 
 const electronAPI = {
   pipelines: {
-    processVideo: (filePath?: string) => ipcRenderer.invoke(IPC_CHANNELS.PROCESS_VIDEO, filePath),
-    retryVideo: (intermediateOutput: string, videoUploadResult: VideoUploadResult) =>
-      ipcRenderer.invoke(IPC_CHANNELS.RETRY_VIDEO, intermediateOutput, videoUploadResult),
+    processVideo: (filePath?: string, options?: ProcessVideoOptions) =>
+      ipcRenderer.invoke(IPC_CHANNELS.PROCESS_VIDEO, filePath, options),
+    importVideo: (filePath: string, options?: ProcessVideoOptions) =>
+      ipcRenderer.invoke(IPC_CHANNELS.IMPORT_VIDEO, filePath, options),
+    retryVideo: (runId: string) => ipcRenderer.invoke(IPC_CHANNELS.RETRY_VIDEO, runId),
+    listUnfinishedJobs: () => ipcRenderer.invoke(IPC_CHANNELS.LIST_UNFINISHED_JOBS),
+    resumeJob: (jobId: string) => ipcRenderer.invoke(IPC_CHANNELS.RESUME_VIDEO_JOB, jobId),
+    discardJob: (jobId: string) => ipcRenderer.invoke(IPC_CHANNELS.DISCARD_VIDEO_JOB, jobId),
+    cancel: (runId?: string) => ipcRenderer.invoke(IPC_CHANNELS.CANCEL_PIPELINE, runId),
+    submitReview: (runId: string, decision: ReviewDecision) =>
+      ipcRenderer.invoke(IPC_CHANNELS.SUBMIT_REVIEW, runId, decision),
+    processBatch: (paths: string[], options?: ProcessVideoOptions) =>
+      ipcRenderer.invoke(IPC_CHANNELS.PROCESS_VIDEO_BATCH, paths, options),
+    cancelBatch: (batchId: string) => ipcRenderer.invoke(IPC_CHANNELS.CANCEL_BATCH, batchId),
+    onBatchProgress: (callback: (progress: BatchProgress) => void) =>
+      onIpcEvent(IPC_CHANNELS.BATCH_PROGRESS, callback),
   },
   youtube: {
     startAuth: () => ipcRenderer.invoke(IPC_CHANNELS.YOUTUBE_START_AUTH),
@@ -97,6 +149,9 @@ const electronAPI = {
   },
   video: {
     selectVideoFile: () => ipcRenderer.invoke(IPC_CHANNELS.SELECT_VIDEO_FILE),
+    selectVideoFiles: () => ipcRenderer.invoke(IPC_CHANNELS.SELECT_VIDEO_FILES),
+    // Dropped files no longer expose `File.path`, so resolve it here where webUtils is available
+    getPathForFile: (file: File) => webUtils.getPathForFile(file),
     selectOutputDirectory: () => ipcRenderer.invoke(IPC_CHANNELS.SELECT_OUTPUT_DIRECTORY),
     // TODO: Should be removed. this function has been moved to processVideo pipeline
     convertVideoToMp3: (inputPath: string, outputPath: string) =>
@@ -119,6 +174,12 @@ const electronAPI = {
       ipcRenderer.on("stop-recording-request", listener);
       return () => ipcRenderer.removeListener("stop-recording-request", listener);
     },
+    onStartRequest: (callback: (sourceId: string | null) => void) =>
+      onIpcEvent(IPC_CHANNELS.START_RECORDING_REQUEST, callback),
+    onPauseRequest: (callback: (paused: boolean) => void) =>
+      onIpcEvent(IPC_CHANNELS.PAUSE_RECORDING_REQUEST, callback),
+    onCancelRequest: (callback: () => void) =>
+      onIpcEvent(IPC_CHANNELS.CANCEL_RECORDING_REQUEST, callback),
   },
   controlBar: {
     onTimeUpdate: (callback: (time: string) => void) => {
@@ -128,7 +189,7 @@ const electronAPI = {
     },
   },
   workflow: {
-    onProgress: (callback: (progress: unknown) => void) =>
+    onEvent: (callback: (event: PipelineEvent) => void) =>
       onIpcEvent(IPC_CHANNELS.WORKFLOW_PROGRESS, callback),
   },
   llm: {
@@ -146,14 +207,8 @@ const electronAPI = {
     prefillPrompt: (text: string) => ipcRenderer.send(IPC_CHANNELS.MCP_PREFILL_PROMPT, text),
     onPrefillPrompt: (callback: (text: string) => void) =>
       onIpcEvent<string>(IPC_CHANNELS.MCP_PREFILL_PROMPT, callback),
-    onStepUpdate: (
-      callback: (step: {
-        type: "start" | "tool_call" | "final_result";
-        message?: string;
-        toolName?: string;
-        serverName?: string;
-      }) => void,
-    ) => onIpcEvent(IPC_CHANNELS.MCP_STEP_UPDATE, callback),
+    respondToolApproval: (approvalId: string, decision: ToolApprovalDecision) =>
+      ipcRenderer.invoke(IPC_CHANNELS.MCP_RESPOND_TOOL_APPROVAL, approvalId, decision),
     listServers: () => ipcRenderer.invoke(IPC_CHANNELS.MCP_LIST_SERVERS),
     addServer: (config: MCPServerConfig) => ipcRenderer.invoke(IPC_CHANNELS.MCP_ADD_SERVER, config),
     updateServer: (name: string, config: MCPServerConfig) =>
@@ -162,16 +217,47 @@ const electronAPI = {
     checkServerHealth: (name: string) =>
       ipcRenderer.invoke(IPC_CHANNELS.MCP_CHECK_SERVER_HEALTH, name),
   },
+  history: {
+    listRuns: (query?: string) => ipcRenderer.invoke(IPC_CHANNELS.HISTORY_LIST_RUNS, query),
+    getRun: (runId: string) => ipcRenderer.invoke(IPC_CHANNELS.HISTORY_GET_RUN, runId),
+    deleteRun: (runId: string) => ipcRenderer.invoke(IPC_CHANNELS.HISTORY_DELETE_RUN, runId),
+  },
   settings: {
     getAllPrompts: () => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_GET_ALL_PROMPTS),
     getActivePrompt: () => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_GET_ACTIVE_PROMPT),
-    addPrompt: (prompt: { name: string; content: string }) =>
-      ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_ADD_PROMPT, prompt),
-    updatePrompt: (id: string, updates: { name?: string; content?: string }) =>
-      ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_UPDATE_PROMPT, id, updates),
+    addPrompt: (prompt: {
+      name: string;
+      content: string;
+      runMode?: RunMode;
+      models?: LLMStageModels;
+    }) => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_ADD_PROMPT, prompt),
+    updatePrompt: (
+      id: string,
+      updates: { name?: string; content?: string; runMode?: RunMode; models?: LLMStageModels },
+    ) => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_UPDATE_PROMPT, id, updates),
     deletePrompt: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_DELETE_PROMPT, id),
     setActivePrompt: (id: string) =>
       ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_SET_ACTIVE_PROMPT, id),
+    getAppSettings: () => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_GET_APP_SETTINGS),
+    updateAppSettings: (updates: Partial<AppSettings>) =>
+      ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_UPDATE_APP_SETTINGS, updates),
+    getArtifactUsage: () => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_GET_ARTIFACT_USAGE),
+    regenerateApiToken: () => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_REGENERATE_API_TOKEN),
+    getHotkeyStatus: () => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_GET_HOTKEY_STATUS),
+  },
+  webhooks: {
+    list: () => ipcRenderer.invoke(IPC_CHANNELS.WEBHOOKS_LIST),
+    add: (input: WebhookInput) => ipcRenderer.invoke(IPC_CHANNELS.WEBHOOKS_ADD, input),
+    update: (
+      id: string,
+      updates: Partial<Pick<Webhook, "url" | "secret" | "events" | "enabled">>,
+    ) => ipcRenderer.invoke(IPC_CHANNELS.WEBHOOKS_UPDATE, id, updates),
+    delete: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.WEBHOOKS_DELETE, id),
+    test: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.WEBHOOKS_TEST, id),
+  },
+  usage: {
+    getRun: (runId: string) => ipcRenderer.invoke(IPC_CHANNELS.USAGE_GET_RUN, runId),
+    getMonthly: () => ipcRenderer.invoke(IPC_CHANNELS.USAGE_GET_MONTHLY),
   },
 };
 
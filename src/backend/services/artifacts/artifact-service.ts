@@ -0,0 +1,117 @@
+import { rm, stat } from "node:fs/promises";
+import tmp from "tmp";
+import { AppSettingsStorage } from "../storage/app-settings-storage";
+import {
+  type ArtifactKind,
+  type RunArtifact,
+  type VideoJob,
+  VideoJobStorage,
+} from "../storage/video-job-storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ArtifactUsage {
+  totalBytes: number;
+  fileCount: number;
+  runCount: number;
+}
+
+// Jobs created before artifacts were tracked own their audio, and their recording until they complete
+const getArtifacts = (job: VideoJob): RunArtifact[] =>
+  job.artifacts ??
+  [
+    !job.imported && job.status !== "completed"
+      ? { kind: "recording" as const, path: job.filePath, createdAt: job.createdAt }
+      : undefined,
+    job.checkpoints.mp3FilePath
+      ? { kind: "audio" as const, path: job.checkpoints.mp3FilePath, createdAt: job.createdAt }
+      : undefined,
+  ].filter((artifact) => artifact !== undefined);
+
+/**
+ * Owns the files each run creates and removes them once they are no longer needed.
+ * A failed or interrupted run keeps its files so it can be resumed; a completed one keeps them
+ * for as long as the artifact retention setting says.
+ */
+export class ArtifactService {
+  private static instance: ArtifactService;
+  private readonly jobStorage = VideoJobStorage.getInstance();
+  private readonly appSettingsStorage = AppSettingsStorage.getInstance();
+
+  static getInstance() {
+    ArtifactService.instance ??= new ArtifactService();
+    return ArtifactService.instance;
+  }
+
+  /**
+   * Reserve a temp path for a file the run is about to create.
+   */
+  async createPath(runId: string, kind: ArtifactKind, extension: string): Promise<string> {
+    const path = tmp.tmpNameSync({ prefix: `${kind}-`, postfix: extension });
+    await this.track(runId, kind, path);
+    return path;
+  }
+
+  /**
+   * Hand a file that already exists, like a recording, over to the run.
+   */
+  async track(runId: string, kind: ArtifactKind, path: string): Promise<void> {
+    await this.jobStorage.addArtifact(runId, { kind, path, createdAt: Date.now() });
+  }
+
+  /**
+   * Give up ownership of a file the user keeps, like a video that a run kept instead of uploading.
+   */
+  async release(runId: string, path: string): Promise<void> {
+    await this.jobStorage.removeArtifacts(runId, [path]);
+  }
+
+  async removeRunArtifacts(runId: string): Promise<void> {
+    const job = await this.jobStorage.getJob(runId);
+    if (!job) return;
+
+    const paths = getArtifacts(job).map((artifact) => artifact.path);
+    await Promise.all(paths.map((path) => rm(path, { force: true })));
+    await this.jobStorage.removeArtifacts(runId, paths);
+  }
+
+  /**
+   * Remove the files of completed runs that the retention setting no longer keeps.
+   */
+  async applyRetention(): Promise<void> {
+    const { artifactRetention, artifactRetentionDays } =
+      await this.appSettingsStorage.getSettings();
+    if (artifactRetention === "keep_forever") return;
+
+    const keepUntil = (job: VideoJob) =>
+      artifactRetention === "keep_days" ? job.updatedAt + artifactRetentionDays * DAY_MS : 0;
+
+    const jobs = await this.jobStorage.getAllJobs();
+    for (const job of jobs) {
+      if (job.status === "completed" && getArtifacts(job).length && keepUntil(job) <= Date.now()) {
+        await this.removeRunArtifacts(job.id);
+      }
+    }
+  }
+
+  async getUsage(): Promise<ArtifactUsage> {
+    const usage: ArtifactUsage = { totalBytes: 0, fileCount: 0, runCount: 0 };
+    for (const job of await this.jobStorage.getAllJobs()) {
+      const sizes = await Promise.all(
+        getArtifacts(job).map((artifact) =>
+          stat(artifact.path).then(
+            (stats) => stats.size,
+            () => undefined, // already gone, or not written yet
+          ),
+        ),
+      );
+      const existing = sizes.filter((size) => size !== undefined);
+      if (!existing.length) continue;
+
+      usage.totalBytes += existing.reduce((total, size) => total + size, 0);
+      usage.fileCount += existing.length;
+      usage.runCount++;
+    }
+    return usage;
+  }
+}
@@ -8,6 +8,7 @@ import getPort from "get-port";
 import { OAuth2Client } from "google-auth-library";
 import { google } from "googleapis";
 import { config } from "../../config/env";
+import { ERROR_MESSAGES } from "../../constants/error-messages";
 import { formatErrorMessage } from "../../utils/error-utils";
 import { YoutubeStorage } from "../storage/youtube-storage";
 import type { AuthResult, TokenData, UserInfo, VideoUploadResult } from "./types";
@@ -20,6 +21,14 @@ const SCOPES = [
 
 const DEFAULT_TOKEN_EXPIRY = 3600000;
 
+const QUOTA_ERROR_REASONS = ["quotaExceeded", "uploadLimitExceeded", "rateLimitExceeded"];
+
+// The parts of a failed Google API request's error that tell why it failed
+type GoogleApiError = {
+  status?: number;
+  response?: { data?: { error?: { errors?: { reason?: string }[] } } };
+};
+
 export class YouTubeAuthService {
   private static instance: YouTubeAuthService;
   private storage = YoutubeStorage.getInstance();
@@ -208,10 +217,10 @@ export class YouTubeAuthService {
     this.closeServer();
   }
 
-  async uploadVideo(videoFilePath?: string): Promise<VideoUploadResult> {
+  async uploadVideo(videoFilePath?: string, signal?: AbortSignal): Promise<VideoUploadResult> {
     try {
       if (!(await this.isAuthenticated())) {
-        return { success: false, error: "Not authenticated" };
+        return { success: false, error: ERROR_MESSAGES.YOUTUBE_NOT_CONNECTED };
       }
 
       const client = await this.getAuthenticatedClient();
@@ -219,23 +228,26 @@ export class YouTubeAuthService {
       // Use provided file path or fall back to default sample video
       const videoPath = videoFilePath || this.getDefaultVideoPath();
       if (!existsSync(videoPath)) {
-        return { success: false, error: "Video file not found" };
+        return { success: false, error: ERROR_MESSAGES.VIDEO_FILE_NOT_FOUND };
       }
 
       const youtube = google.youtube({ version: "v3", auth: client });
-      const response = await youtube.videos.insert({
-        part: ["snippet", "status"],
-        requestBody: {
-          snippet: {
-            title: "Uploaded Video",
-            description: "Video uploaded via Desktop Electron App",
-            tags: ["electron", "upload"],
-            categoryId: "22",
+      const response = await youtube.videos.insert(
+        {
+          part: ["snippet", "status"],
+          requestBody: {
+            snippet: {
+              title: "Uploaded Video",
+              description: "Video uploaded via Desktop Electron App",
+              tags: ["electron", "upload"],
+              categoryId: "22",
+            },
+            status: { privacyStatus: "unlisted" },
           },
-          status: { privacyStatus: "unlisted" },
+          media: { body: createReadStream(videoPath) },
         },
-        media: { body: createReadStream(videoPath) },
-      });
+        { signal },
+      );
 
       const { id: videoId, snippet } = response.data;
 
@@ -248,13 +260,32 @@ export class YouTubeAuthService {
         },
       };
     } catch (error) {
+      // Cancellation is not an upload failure; let the pipeline see it
+      if (signal?.aborted) throw error;
       return {
         success: false,
-        error: formatErrorMessage(error),
+        error: this.getUploadErrorMessage(error),
       };
     }
   }
 
+  /**
+   * Describe the failures the user can do something about, like an expired sign-in or an
+   * exhausted upload quota.
+   */
+  private getUploadErrorMessage(error: unknown): string {
+    const { status, response } = (error ?? {}) as GoogleApiError;
+    const reasons = (response?.data?.error?.errors ?? []).map((e) => e.reason);
+
+    if (status === 401 || formatErrorMessage(error).includes("invalid_grant")) {
+      return ERROR_MESSAGES.YOUTUBE_AUTH_EXPIRED;
+    }
+    if (reasons.some((reason) => reason && QUOTA_ERROR_REASONS.includes(reason))) {
+      return ERROR_MESSAGES.YOUTUBE_QUOTA_EXCEEDED;
+    }
+    return formatErrorMessage(error);
+  }
+
   private getDefaultVideoPath(): string {
     return join(app.getAppPath(), "videos", "sample.mp4");
   }
@@ -1,7 +1,7 @@
 import { spawn } from "node:child_process";
 import fs from "node:fs/promises";
 import ffmpeg from "@ffmpeg-installer/ffmpeg";
-import type { ConversionProgress } from "./types";
+import type { AudioSilences, ConversionProgress } from "./types";
 
 // Resolve FFmpeg path; when packaged, ensure we point to app.asar.unpacked
 let ffmpegPath = ffmpeg.path;
@@ -9,6 +9,18 @@ if (ffmpegPath.includes("app.asar")) {
   ffmpegPath = ffmpegPath.replace("app.asar", "app.asar.unpacked");
 }
 
+// Quieter than this for at least this many seconds counts as silence
+const SILENCE_NOISE = "-30dB";
+const SILENCE_MIN_DURATION = 0.5;
+
+// Duration of the input in seconds, from FFmpeg's log; 0 when it doesn't know
+const parseDuration = (stderr: string) => {
+  const match = stderr.match(/Duration: (\d{2}):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  return match
+    ? parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3])
+    : 0;
+};
+
 export class FFmpegService {
   private static instance: FFmpegService;
 
@@ -21,7 +33,10 @@ export class FFmpegService {
     inputPath: string,
     outputPath: string,
     onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal,
   ): Promise<string> {
+    signal?.throwIfAborted();
+
     // Check if input file exists
     try {
       await fs.access(inputPath);
@@ -29,16 +44,9 @@ export class FFmpegService {
       throw new Error(`Input file not found: ${inputPath}`);
     }
 
-    // Validate ffmpeg binary exists before spawn (better error than ENOENT)
-    try {
-      await fs.access(ffmpegPath);
-    } catch {
-      throw new Error(`FFmpeg binary not found at: ${ffmpegPath}.`);
-    }
-
-    return new Promise((resolve, reject) => {
-      // FFmpeg command to convert video to MP3
-      const args = [
+    // FFmpeg command to convert video to MP3
+    await this.run(
+      [
         "-i",
         inputPath, // Input file path
         "-vn", // Disable video recording (if input has video)
@@ -51,10 +59,184 @@ export class FFmpegService {
         "-f",
         "mp3", // Output format
         outputPath, // Output file path
-      ];
+      ],
+      outputPath,
+      onProgress,
+      signal,
+    );
+    return outputPath;
+  }
+
+  /**
+   * Convert audio to the 16 kHz mono 16-bit WAV that whisper.cpp reads.
+   */
+  async ConvertAudioToWav(
+    inputPath: string,
+    outputPath: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    signal?.throwIfAborted();
+
+    try {
+      await fs.access(inputPath);
+    } catch {
+      throw new Error(`Input file not found: ${inputPath}`);
+    }
+
+    await this.run(
+      [
+        "-i",
+        inputPath,
+        "-vn",
+        "-ar",
+        "16000", // Sample rate whisper.cpp expects
+        "-ac",
+        "1", // Mono
+        "-c:a",
+        "pcm_s16le",
+        "-y", // Overwrite a leftover file of an earlier attempt
+        "-f",
+        "wav",
+        outputPath,
+      ],
+      outputPath,
+      undefined,
+      signal,
+    );
+    return outputPath;
+  }
+
+  /**
+   * Get the duration of the audio or video in seconds.
+   */
+  async GetDuration(inputPath: string, signal?: AbortSignal): Promise<number> {
+    signal?.throwIfAborted();
+
+    try {
+      await fs.access(inputPath);
+    } catch {
+      throw new Error(`Input file not found: ${inputPath}`);
+    }
+
+    // FFmpeg logs the input's duration before it starts decoding, so decode nothing
+    const stderr = await this.run(
+      ["-i", inputPath, "-t", "0", "-f", "null", "-"],
+      undefined,
+      undefined,
+      signal,
+    );
+    return parseDuration(stderr);
+  }
+
+  /**
+   * Find the silent stretches of the audio, e.g. to split it between sentences.
+   */
+  async DetectSilences(inputPath: string, signal?: AbortSignal): Promise<AudioSilences> {
+    signal?.throwIfAborted();
+
+    try {
+      await fs.access(inputPath);
+    } catch {
+      throw new Error(`Input file not found: ${inputPath}`);
+    }
+
+    const stderr = await this.run(
+      [
+        "-i",
+        inputPath,
+        "-vn",
+        "-af",
+        `silencedetect=noise=${SILENCE_NOISE}:d=${SILENCE_MIN_DURATION}`,
+        "-f",
+        "null", // Only the filter's log is needed
+        "-",
+      ],
+      undefined,
+      undefined,
+      signal,
+    );
+
+    const duration = parseDuration(stderr);
+
+    // Each silence logs its start, then its end; one still running at the end of the audio has no end
+    const silences: AudioSilences["silences"] = [];
+    for (const match of stderr.matchAll(/silence_(start|end): (-?[0-9.]+)/g)) {
+      const time = Math.max(0, parseFloat(match[2]));
+      if (match[1] === "start") {
+        silences.push({ start: time, end: duration });
+      } else if (silences.length) {
+        silences[silences.length - 1].end = time;
+      }
+    }
+    return { duration, silences };
+  }
+
+  /**
+   * Cut `duration` seconds from `start` out of the audio into an MP3 of its own.
+   */
+  async ExtractAudioSegment(
+    inputPath: string,
+    outputPath: string,
+    start: number,
+    duration: number,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    signal?.throwIfAborted();
 
+    try {
+      await fs.access(inputPath);
+    } catch {
+      throw new Error(`Input file not found: ${inputPath}`);
+    }
+
+    await this.run(
+      [
+        "-ss",
+        start.toFixed(3), // Seek before the input, so the segment's timestamps start at 0
+        "-t",
+        duration.toFixed(3),
+        "-i",
+        inputPath,
+        "-vn",
+        "-c:a",
+        "libmp3lame", // Re-encode, so the segment starts exactly at `start` rather than a frame
+        "-b:a",
+        "128k",
+        "-y",
+        "-f",
+        "mp3",
+        outputPath,
+      ],
+      outputPath,
+      undefined,
+      signal,
+    );
+    return outputPath;
+  }
+
+  // Resolves with FFmpeg's log, which is where filters like silencedetect report
+  private async run(
+    args: string[],
+    outputPath: string | undefined,
+    onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    // Validate ffmpeg binary exists before spawn (better error than ENOENT)
+    try {
+      await fs.access(ffmpegPath);
+    } catch {
+      throw new Error(`FFmpeg binary not found at: ${ffmpegPath}.`);
+    }
+
+    return new Promise((resolve, reject) => {
       const ffmpeg = spawn(ffmpegPath, args);
 
+      const handleAbort = () => {
+        ffmpeg.kill("SIGKILL");
+        reject(new Error("FFmpeg conversion cancelled"));
+      };
+      signal?.addEventListener("abort", handleAbort, { once: true });
+
       let stderr = "";
       let duration = 0;
 
@@ -63,9 +245,7 @@ export class FFmpegService {
         stderr += output;
 
         // Parse duration from ffmpeg output
-        const durationMatch = output.match(
-          /Duration: (\d{2}):(\d{2}):(\d{2})\.\d{2}/,
-        );
+        const durationMatch = output.match(/Duration: (\d{2}):(\d{2}):(\d{2})\.\d{2}/);
         if (durationMatch) {
           const hours = parseInt(durationMatch[1], 10);
           const minutes = parseInt(durationMatch[2], 10);
@@ -95,8 +275,14 @@ export class FFmpegService {
       });
 
       ffmpeg.on("close", (code: number | null) => {
+        signal?.removeEventListener("abort", handleAbort);
+        if (signal?.aborted) {
+          // Drop the partial output of a cancelled conversion
+          if (outputPath) void fs.rm(outputPath, { force: true });
+          return;
+        }
         if (code === 0) {
-          resolve(outputPath);
+          resolve(stderr);
         } else {
           const error = `FFmpeg process exited with code ${code}. Error: ${stderr}`;
           console.error(error);
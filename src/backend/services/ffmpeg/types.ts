@@ -3,3 +3,8 @@ export interface ConversionProgress {
   timeProcessed: string;
   speed: string;
 }
+
+export interface AudioSilences {
+  duration: number; // of the whole audio, in seconds
+  silences: { start: number; end: number }[];
+}
@@ -1,5 +1,13 @@
+import { constants } from "node:fs";
+import { copyFile, readdir, stat } from "node:fs/promises";
+import { extname, join } from "node:path";
 import { dialog } from "electron";
 
+export const SUPPORTED_VIDEO_EXTENSIONS = ["mp4", "mov", "mkv", "webm"];
+
+export const isSupportedVideoFile = (filePath: string): boolean =>
+  SUPPORTED_VIDEO_EXTENSIONS.includes(extname(filePath).slice(1).toLowerCase());
+
 export class FileService {
   private static instance: FileService;
 
@@ -14,14 +22,68 @@ export class FileService {
       filters: [
         {
           name: "Video Files",
-          extensions: ["mp4", "avi", "mov", "mkv", "webm", "flv", "m4v"],
+          extensions: SUPPORTED_VIDEO_EXTENSIONS,
         },
-        { name: "All Files", extensions: ["*"] },
       ],
     });
     return result.canceled ? null : result.filePaths[0];
   }
 
+  async selectFiles(): Promise<string[]> {
+    const result = await dialog.showOpenDialog({
+      properties: ["openFile", "multiSelections"],
+      filters: [
+        {
+          name: "Video Files",
+          extensions: SUPPORTED_VIDEO_EXTENSIONS,
+        },
+      ],
+    });
+    return result.canceled ? [] : result.filePaths;
+  }
+
+  /**
+   * Expand files and directories into the supported videos among them.
+   * Directories are only read one level deep, in name order.
+   */
+  async collectVideoFiles(paths: string[]): Promise<string[]> {
+    const videoFiles: string[] = [];
+    for (const path of paths) {
+      if ((await stat(path)).isDirectory()) {
+        const entries = await readdir(path, { withFileTypes: true });
+        videoFiles.push(
+          ...entries
+            .filter((entry) => entry.isFile() && isSupportedVideoFile(entry.name))
+            .map((entry) => join(path, entry.name))
+            .sort(),
+        );
+      } else if (isSupportedVideoFile(path)) {
+        videoFiles.push(path);
+      }
+    }
+    return [...new Set(videoFiles)];
+  }
+
+  /**
+   * Copy a file into a folder under the given name and the file's own extension, numbering the
+   * copy when the folder already has a file of that name.
+   */
+  async copyToFolder(filePath: string, folder: string, name: string): Promise<string> {
+    const extension = extname(filePath);
+    for (let copy = 1; ; copy++) {
+      const target = join(
+        folder,
+        copy === 1 ? `${name}${extension}` : `${name} (${copy})${extension}`,
+      );
+      try {
+        await copyFile(filePath, target, constants.COPYFILE_EXCL);
+        return target;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+    }
+  }
+
   async selectDirectory(): Promise<string | null> {
     const result = await dialog.showOpenDialog({
       properties: ["openDirectory"],
@@ -0,0 +1,121 @@
+import { globalShortcut } from "electron";
+import { RecordingService } from "../recording/recording-service";
+import {
+  AppSettingsStorage,
+  type HotkeyAction,
+  type HotkeySettings,
+} from "../storage/app-settings-storage";
+
+// "in_use" means another app already holds the shortcut; "invalid" that it isn't an accelerator
+export type HotkeyStatus = "registered" | "in_use" | "invalid";
+
+const ACTION_LABELS: Record<HotkeyAction, string> = {
+  startRecording: "start recording",
+  stopRecording: "stop recording",
+  pauseRecording: "pause recording",
+  addMarker: "add a marker",
+  cancelRecording: "cancel recording",
+};
+
+const normalize = (accelerator: string) =>
+  accelerator
+    .split("+")
+    .map((key) => key.trim().toLowerCase())
+    .sort()
+    .join("+");
+
+/**
+ * Registers the recording hotkeys from the app settings as global shortcuts, so recordings can be
+ * controlled while another app has focus.
+ */
+export class GlobalHotkeyService {
+  private static instance: GlobalHotkeyService;
+  private readonly recording = RecordingService.getInstance();
+  private readonly appSettingsStorage = AppSettingsStorage.getInstance();
+  private readonly registered = new Set<string>();
+  private status: Partial<Record<HotkeyAction, HotkeyStatus>> = {};
+  private showMainWindow: () => void = () => {};
+
+  private readonly actions: Record<HotkeyAction, () => void> = {
+    startRecording: () => {
+      void this.recording
+        .requestStart()
+        .then((started) => {
+          // the main window shows how to connect a video platform, which recording needs
+          if (!started) this.showMainWindow();
+        })
+        .catch((e) => console.error("Failed to start recording:", e));
+    },
+    stopRecording: () => this.recording.requestStop(),
+    pauseRecording: () => this.recording.togglePause(),
+    addMarker: () => this.recording.addMarker(),
+    cancelRecording: () => this.recording.requestCancel(),
+  };
+
+  static getInstance() {
+    GlobalHotkeyService.instance ??= new GlobalHotkeyService();
+    return GlobalHotkeyService.instance;
+  }
+
+  async initialize(showMainWindow: () => void): Promise<void> {
+    this.showMainWindow = showMainWindow;
+    await this.applySettings();
+  }
+
+  /**
+   * Throws when two actions would share a hotkey, before the settings are saved.
+   */
+  validate(hotkeys: HotkeySettings) {
+    const seen = new Map<string, HotkeyAction>();
+    for (const [action, accelerator] of Object.entries(hotkeys) as [
+      HotkeyAction,
+      string | null,
+    ][]) {
+      if (!accelerator) continue;
+
+      const existing = seen.get(normalize(accelerator));
+      if (existing) {
+        throw new Error(`${accelerator} is already the hotkey to ${ACTION_LABELS[existing]}`);
+      }
+      seen.set(normalize(accelerator), action);
+    }
+  }
+
+  /**
+   * Register the hotkeys from the settings in place of the ones registered before.
+   */
+  async applySettings(): Promise<void> {
+    const { hotkeys } = await this.appSettingsStorage.getSettings();
+    this.unregisterAll();
+
+    this.status = {};
+    for (const [action, accelerator] of Object.entries(hotkeys) as [
+      HotkeyAction,
+      string | null,
+    ][]) {
+      if (!accelerator) continue;
+
+      try {
+        if (globalShortcut.register(accelerator, this.actions[action])) {
+          this.registered.add(accelerator);
+          this.status[action] = "registered";
+        } else {
+          this.status[action] = "in_use";
+        }
+      } catch {
+        this.status[action] = "invalid";
+      }
+    }
+  }
+
+  getStatus(): Partial<Record<HotkeyAction, HotkeyStatus>> {
+    return this.status;
+  }
+
+  unregisterAll() {
+    for (const accelerator of this.registered) {
+      globalShortcut.unregister(accelerator);
+    }
+    this.registered.clear();
+  }
+}
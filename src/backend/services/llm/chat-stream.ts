@@ -0,0 +1,112 @@
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionMessageFunctionToolCall,
+} from "openai/resources/index";
+
+/**
+ * Assemble a streamed chat completion into the completion the API would have returned without
+ * streaming. Tool calls arrive in pieces, keyed by their index, and are joined as they stream.
+ * `onContent` is called with the text received so far whenever more of it arrives.
+ */
+export async function assembleChatCompletion(
+  stream: AsyncIterable<ChatCompletionChunk>,
+  onContent?: (content: string) => void,
+): Promise<ChatCompletion> {
+  let first: ChatCompletionChunk | undefined;
+  let content = "";
+  let finishReason: ChatCompletion.Choice["finish_reason"] | null = null;
+  let usage: ChatCompletion["usage"];
+  const toolCalls: ChatCompletionMessageFunctionToolCall[] = [];
+
+  for await (const chunk of stream) {
+    first ??= chunk;
+    // the usage comes last, in a chunk without choices
+    if (chunk.usage) usage = chunk.usage;
+
+    const choice = chunk.choices[0];
+    if (!choice) continue;
+    finishReason = choice.finish_reason ?? finishReason;
+
+    const { delta } = choice;
+    if (delta.content) {
+      content += delta.content;
+      onContent?.(content);
+    }
+    for (const toolCallDelta of delta.tool_calls ?? []) {
+      const toolCall = toolCalls[toolCallDelta.index] ?? {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      };
+      toolCalls[toolCallDelta.index] = toolCall;
+      if (toolCallDelta.id) toolCall.id = toolCallDelta.id;
+      toolCall.function.name += toolCallDelta.function?.name ?? "";
+      toolCall.function.arguments += toolCallDelta.function?.arguments ?? "";
+    }
+  }
+
+  const assembledToolCalls = toolCalls.filter((toolCall) => toolCall !== undefined);
+  return {
+    id: first?.id ?? "",
+    object: "chat.completion",
+    created: first?.created ?? Math.floor(Date.now() / 1000),
+    model: first?.model ?? "",
+    choices: [
+      {
+        index: 0,
+        // a stream cut off without a reason still ended on the tool calls it assembled, or an answer
+        finish_reason: finishReason ?? (assembledToolCalls.length ? "tool_calls" : "stop"),
+        logprobs: null,
+        message: {
+          role: "assistant",
+          content: content || null,
+          refusal: null,
+          ...(assembledToolCalls.length && { tool_calls: assembledToolCalls }),
+        },
+      },
+    ],
+    usage,
+  };
+}
+
+/**
+ * Parse JSON that is still being written, by closing its open string, arrays and objects and
+ * dropping a key that has no value yet. Returns undefined when even that doesn't parse.
+ */
+export function parsePartialJson(text: string): unknown {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      closers.push("}");
+    } else if (char === "[") {
+      closers.push("]");
+    } else if (char === "}" || char === "]") {
+      closers.pop();
+    }
+  }
+
+  let completed = text.trimEnd();
+  if (inString) {
+    // a dangling backslash would escape the closing quote
+    completed = `${escaped ? completed.slice(0, -1) : completed}"`;
+  }
+  if (closers.at(-1) === "}") {
+    completed = completed.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, "$1");
+  }
+  completed = completed.replace(/,\s*$/, "");
+
+  try {
+    return JSON.parse(completed + closers.reverse().join(""));
+  } catch {
+    return undefined;
+  }
+}
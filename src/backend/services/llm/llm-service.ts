@@ -0,0 +1,101 @@
+import type {
+  ChatCompletion,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from "openai/resources/index";
+import { ERROR_MESSAGES } from "../../constants/error-messages";
+import type { HealthStatusInfo } from "../../types";
+import { formatErrorMessage } from "../../utils/error-utils";
+import { type LLMConfig, LlmStorage } from "../storage/llm-storage";
+import { AzureOpenAIClient, OpenAIClient, OpenAICompatibleClient } from "./openai-clients";
+import type {
+  GenerateOutputOptions,
+  LLMClient,
+  SendMessageOptions,
+  TranscribeAudioOptions,
+} from "./types";
+
+export const createLLMClient = (config: LLMConfig): LLMClient => {
+  switch (config.provider) {
+    case "openai":
+      return new OpenAIClient(config);
+    case "azure":
+      return new AzureOpenAIClient(config);
+    case "openai-compatible":
+      return new OpenAICompatibleClient(config);
+  }
+};
+
+/**
+ * The LLM client for the provider configured in the LLM settings, switched when they change.
+ */
+export class LLMService implements LLMClient {
+  private static instance: LLMService;
+  private client: LLMClient | null = null;
+  private storage = LlmStorage.getInstance();
+
+  static getInstance() {
+    LLMService.instance ??= new LLMService();
+    return LLMService.instance;
+  }
+
+  private constructor() {}
+
+  private async getClient(): Promise<LLMClient> {
+    if (!this.client) {
+      const config = await this.storage.getLLMConfig();
+      if (!config) {
+        throw new Error(ERROR_MESSAGES.LLM_NOT_CONFIGURED);
+      }
+      this.client = createLLMClient(config);
+    }
+    return this.client;
+  }
+
+  // Allow dynamic updates from UI
+  configure(config: LLMConfig) {
+    this.client = createLLMClient(config);
+  }
+
+  clear() {
+    this.client = null;
+  }
+
+  // The client is only created on first use, so a stored config counts as configured before then
+  async isConfigured(): Promise<boolean> {
+    return this.client !== null || (await this.storage.getLLMConfig()) !== null;
+  }
+
+  async sendMessage(
+    messages: ChatCompletionMessageParam[],
+    tools: ChatCompletionTool[] = [],
+    options?: SendMessageOptions,
+  ): Promise<ChatCompletion> {
+    return (await this.getClient()).sendMessage(messages, tools, options);
+  }
+
+  async generateOutput(
+    systemPrompt: string,
+    userInput: string,
+    options?: GenerateOutputOptions,
+  ): Promise<string> {
+    return (await this.getClient()).generateOutput(systemPrompt, userInput, options);
+  }
+
+  async transcribeAudio(filePath: string, options?: TranscribeAudioOptions): Promise<string> {
+    return (await this.getClient()).transcribeAudio(filePath, options);
+  }
+
+  async checkHealth(): Promise<HealthStatusInfo> {
+    let client: LLMClient;
+    try {
+      client = await this.getClient();
+    } catch (err) {
+      return {
+        isHealthy: false,
+        error: formatErrorMessage(err),
+      };
+    }
+    return client.checkHealth();
+  }
+}
@@ -0,0 +1,245 @@
+import { AzureOpenAI, OpenAI } from "openai";
+import type {
+  ChatCompletion,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from "openai/resources/index";
+import { ERROR_MESSAGES } from "../../constants/error-messages";
+import type { HealthStatusInfo } from "../../types";
+import { formatErrorMessage } from "../../utils/error-utils";
+import { FFmpegService } from "../ffmpeg/ffmpeg-service";
+import type {
+  AzureOpenAIConfig,
+  LLMConfig,
+  OpenAICompatibleConfig,
+  OpenAIConfig,
+} from "../storage/llm-storage";
+import { ChunkedTranscriber } from "../transcription/chunked-transcriber";
+import { OpenAITranscriber } from "../transcription/openai-transcriber";
+import type { TranscriptionProvider } from "../transcription/types";
+import { WhisperCppTranscriber } from "../transcription/whisper-cpp-transcriber";
+import { assembleChatCompletion } from "./chat-stream";
+import { callWithRetry } from "./resilient-call";
+import type {
+  GenerateOutputOptions,
+  LLMClient,
+  LLMRequestOptions,
+  SendMessageOptions,
+  TranscribeAudioOptions,
+} from "./types";
+
+type ChatStage = "summary" | "taskExecution";
+
+const CHAT_STAGE_LABELS: Record<ChatStage, string> = {
+  summary: "Summary",
+  taskExecution: "Task execution",
+};
+
+// whisper.cpp when the settings ask for offline transcription, otherwise the provider's audio API,
+// which takes long recordings in chunks
+const createTranscriber = (
+  client: OpenAI,
+  { transcription }: LLMConfig,
+  model: string | undefined,
+  canLookUpModel?: boolean,
+): TranscriptionProvider =>
+  transcription?.provider === "whisper-cpp"
+    ? new WhisperCppTranscriber(transcription)
+    : new ChunkedTranscriber(new OpenAITranscriber(client, model, canLookUpModel));
+
+// Tokens the provider counted, under the model the request asked for, which the price table uses;
+// the response names a dated version of it
+const reportUsage = (model: string, { usage }: ChatCompletion, options?: LLMRequestOptions) =>
+  options?.onUsage?.({
+    model,
+    promptTokens: usage?.prompt_tokens ?? 0,
+    completionTokens: usage?.completion_tokens ?? 0,
+  });
+
+/**
+ * An LLM reached through the OpenAI API, which Azure OpenAI and the self-hosted servers also speak.
+ * Its calls are retried by `callWithRetry` rather than the SDK, so the clients are created with
+ * `maxRetries: 0` and the user sees every retry.
+ */
+abstract class OpenAIApiClient implements LLMClient {
+  private readonly ffmpegService = FFmpegService.getInstance();
+
+  constructor(
+    private readonly client: OpenAI,
+    private readonly models: Record<ChatStage, string>,
+    private readonly transcriber: TranscriptionProvider,
+  ) {}
+
+  async isConfigured(): Promise<boolean> {
+    return true;
+  }
+
+  async sendMessage(
+    messages: ChatCompletionMessageParam[],
+    tools: ChatCompletionTool[] = [],
+    options?: SendMessageOptions,
+  ): Promise<ChatCompletion> {
+    const model = options?.model || this.models.taskExecution;
+    const request = {
+      model,
+      messages,
+      // some self-hosted servers reject an empty tool list
+      ...(tools.length && { tools }),
+    };
+    const { onContent } = options ?? {};
+    // a stream that breaks off is attempted again from the start
+    const response = await callWithRetry(
+      async (attempt) =>
+        onContent
+          ? assembleChatCompletion(
+              await this.client.chat.completions.create(
+                // the usage is only reported at the end of a stream when asked for
+                { ...request, stream: true, stream_options: { include_usage: true } },
+                attempt,
+              ),
+              onContent,
+            )
+          : this.client.chat.completions.create(request, attempt),
+      options,
+    );
+    reportUsage(model, response, options);
+    return response;
+  }
+
+  async generateOutput(
+    systemPrompt: string,
+    userInput: string,
+    options?: GenerateOutputOptions,
+  ): Promise<string> {
+    const model = options?.model || this.models.summary;
+    const response = await callWithRetry(
+      (attempt) =>
+        this.client.chat.completions.create(
+          {
+            model,
+            messages: [
+              { role: "system", content: systemPrompt },
+              { role: "user", content: userInput },
+            ],
+            ...(options?.jsonMode && { response_format: { type: "json_object" } }),
+          },
+          attempt,
+        ),
+      options,
+    );
+    reportUsage(model, response, options);
+
+    return response.choices[0]?.message?.content || "";
+  }
+
+  async transcribeAudio(filePath: string, options?: TranscribeAudioOptions): Promise<string> {
+    // a prompt's transcription model names one of the provider's models; whisper.cpp only has
+    // its configured model file
+    const model = this.transcriber instanceof WhisperCppTranscriber ? undefined : options?.model;
+    const transcript = await this.transcriber.transcribe(filePath, { ...options, model });
+    if (options?.onUsage) {
+      // transcriptions are billed by the minute of audio, which the API doesn't report
+      try {
+        options.onUsage({
+          model: model || this.transcriber.model || "unknown",
+          audioSeconds: await this.ffmpegService.GetDuration(filePath),
+        });
+      } catch (err) {
+        console.error("Failed to measure the transcribed audio:", err);
+      }
+    }
+    return transcript;
+  }
+
+  async checkHealth(): Promise<HealthStatusInfo> {
+    const checkedModels = new Set<string>();
+    for (const stage of Object.keys(CHAT_STAGE_LABELS) as ChatStage[]) {
+      const model = this.models[stage];
+      if (checkedModels.has(model)) continue;
+
+      try {
+        await this.client.chat.completions.create({
+          model,
+          messages: [{ role: "user", content: "test" }],
+          max_tokens: 1,
+        });
+        checkedModels.add(model);
+      } catch (err) {
+        return {
+          isHealthy: false,
+          error: `${CHAT_STAGE_LABELS[stage]} model ${model}: ${formatErrorMessage(err)}`,
+        };
+      }
+    }
+
+    const transcriptionModel = this.transcriber.model ?? "none";
+    try {
+      await this.transcriber.checkHealth();
+    } catch (err) {
+      return {
+        isHealthy: false,
+        error: `Transcription model ${transcriptionModel}: ${formatErrorMessage(err)}`,
+      };
+    }
+
+    const models = (Object.keys(CHAT_STAGE_LABELS) as ChatStage[])
+      .map((stage) => `${CHAT_STAGE_LABELS[stage]}: ${this.models[stage]}`)
+      .join(", ");
+    return {
+      isHealthy: true,
+      successMessage: `Healthy - ${models}, Transcription: ${transcriptionModel}`,
+    };
+  }
+}
+
+export class OpenAIClient extends OpenAIApiClient {
+  constructor(config: OpenAIConfig) {
+    const { apiKey, models } = config;
+    const client = new OpenAI({ apiKey, maxRetries: 0 });
+    super(
+      client,
+      { summary: models?.summary || "gpt-4o", taskExecution: models?.taskExecution || "gpt-4o" },
+      createTranscriber(client, config, models?.transcription || "whisper-1"),
+    );
+  }
+}
+
+export class AzureOpenAIClient extends OpenAIApiClient {
+  constructor(config: AzureOpenAIConfig) {
+    const { apiKey, endpoint, version, deployment, models } = config;
+    if (!deployment) {
+      throw new Error(ERROR_MESSAGES.AZURE_DEPLOYMENT_MISSING);
+    }
+    // each request goes to the deployment named by its model
+    const client = new AzureOpenAI({ apiKey, endpoint, apiVersion: version, maxRetries: 0 });
+    super(
+      client,
+      {
+        summary: models?.summary || deployment,
+        taskExecution: models?.taskExecution || deployment,
+      },
+      // deployments can't be looked up with an API key, so a wrong one only shows when transcribing
+      createTranscriber(client, config, models?.transcription || deployment, false),
+    );
+  }
+}
+
+/**
+ * A self-hosted server with an OpenAI-compatible API, such as Ollama, LM Studio or vLLM.
+ */
+export class OpenAICompatibleClient extends OpenAIApiClient {
+  constructor(config: OpenAICompatibleConfig) {
+    const { baseUrl, apiKey, model, models } = config;
+    // most self-hosted servers ignore the key, but the SDK won't send a request without one
+    const client = new OpenAI({
+      baseURL: baseUrl,
+      apiKey: apiKey || "not-needed",
+      maxRetries: 0,
+    });
+    super(
+      client,
+      { summary: models?.summary || model, taskExecution: models?.taskExecution || model },
+      createTranscriber(client, config, models?.transcription || undefined),
+    );
+  }
+}
@@ -160,3 +160,16 @@ export function buildTaskExecutionPrompt(customPrompt?: string): string {
   CONTEXT (use as reference if needed):
   ${TASK_EXECUTION_PROMPT}`;
 }
+
+const formatMarker = (seconds: number) => new Date(seconds * 1000).toISOString().slice(11, 19); // hh:mm:ss
+
+/**
+ * Point the summary at the moments the user marked while recording, when there are any.
+ */
+export function withMarkers(transcript: string, markers?: number[]): string {
+  if (!markers?.length) return transcript;
+
+  return `${transcript}
+
+The user marked these moments of the recording as important: ${markers.map(formatMarker).join(", ")}.`;
+}
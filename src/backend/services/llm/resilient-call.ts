@@ -0,0 +1,99 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { APIConnectionError, APIConnectionTimeoutError, APIError, APIUserAbortError } from "openai";
+import { AppSettingsStorage } from "../storage/app-settings-storage";
+
+// Backoff before the second attempt, doubling for each one after it up to the cap
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 60_000;
+// A provider asking for a longer wait than this fails the call rather than holding up the run
+const MAX_RETRY_AFTER_MS = 5 * 60_000;
+
+// A failed call about to be attempted again
+export interface LLMRetry {
+  attempt: number; // the attempt about to be made, from 2
+  maxAttempts: number;
+  delayMs: number;
+  reason: string; // e.g. "Rate limited"
+}
+
+// What the SDK needs to make one attempt
+export interface AttemptOptions {
+  signal?: AbortSignal;
+  timeout: number; // in milliseconds
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal; // cancels the call, and the wait before its next attempt
+  onRetry?: (retry: LLMRetry) => void;
+}
+
+// Why the call is worth another attempt, or undefined when it would only fail the same way
+const getRetryReason = (error: unknown): string | undefined => {
+  if (error instanceof APIUserAbortError) return undefined;
+  if (error instanceof APIConnectionTimeoutError) return "Timed out";
+  if (error instanceof APIConnectionError) return "Connection failed";
+  if (!(error instanceof APIError) || error.status === undefined) return undefined;
+  // an exhausted quota doesn't come back by waiting
+  if (error.status === 429) return error.code === "insufficient_quota" ? undefined : "Rate limited";
+  if (error.status === 408) return "Timed out";
+  if (error.status >= 500) return `Server error ${error.status}`;
+  return undefined;
+};
+
+// The wait the provider asked for, in `retry-after-ms` as OpenAI and Azure send it, or in
+// `Retry-After` as seconds or an HTTP date
+const getRetryAfterMs = (error: unknown): number | undefined => {
+  if (!(error instanceof APIError)) return undefined;
+  const retryAfterMs = Number(error.headers?.get("retry-after-ms") ?? Number.NaN);
+  if (Number.isFinite(retryAfterMs)) return Math.max(0, retryAfterMs);
+
+  const retryAfter = error.headers?.get("retry-after");
+  if (!retryAfter) return undefined;
+  const seconds = Number(retryAfter);
+  const ms = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+  return Number.isNaN(ms) ? undefined : Math.max(0, ms);
+};
+
+const getDelayMs = (error: unknown, attempt: number): number | undefined => {
+  const retryAfterMs = getRetryAfterMs(error);
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= MAX_RETRY_AFTER_MS ? retryAfterMs : undefined;
+  }
+  // the jitter spreads out calls that failed together, like the chunks of a long recording
+  const backoff = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+  return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+};
+
+/**
+ * Describes a retry to the user, e.g. "Rate limited, retrying in 8s (attempt 2 of 4)".
+ */
+export const describeRetry = ({ reason, delayMs, attempt, maxAttempts }: LLMRetry) =>
+  `${reason}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${maxAttempts})`;
+
+/**
+ * Make an LLM call, attempting it again after rate limits, server errors, timeouts and dropped
+ * connections, up to the attempts set in the app settings. Waits what the provider asks for in
+ * its Retry-After headers, otherwise backs off exponentially with jitter. Every attempt gets the
+ * request timeout of the app settings. Other errors, and a cancelled call, fail straight away.
+ */
+export async function callWithRetry<T>(
+  call: (options: AttemptOptions) => Promise<T>,
+  { signal, onRetry }: RetryOptions = {},
+): Promise<T> {
+  const { llmMaxAttempts, llmRequestTimeoutSeconds } =
+    await AppSettingsStorage.getInstance().getSettings();
+  const maxAttempts = Math.max(1, llmMaxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call({ signal, timeout: llmRequestTimeoutSeconds * 1000 });
+    } catch (error) {
+      const reason = signal?.aborted ? undefined : getRetryReason(error);
+      const delayMs = reason && attempt < maxAttempts ? getDelayMs(error, attempt) : undefined;
+      if (!reason || delayMs === undefined) throw error;
+
+      onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, reason });
+      await sleep(delayMs, undefined, { signal });
+    }
+  }
+}
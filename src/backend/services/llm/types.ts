@@ -0,0 +1,56 @@
+import type {
+  ChatCompletion,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from "openai/resources/index";
+import type { HealthStatusInfo } from "../../types";
+import type { TranscriptionProgress } from "../transcription/types";
+import type { LLMRetry } from "./resilient-call";
+
+// What one call used, as reported by the provider or measured from the audio
+export interface LLMUsage {
+  model: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  audioSeconds?: number;
+}
+
+export interface LLMRequestOptions {
+  model?: string; // instead of the configured model for the stage
+  signal?: AbortSignal;
+  onUsage?: (usage: LLMUsage) => void; // called once the call has succeeded
+  onRetry?: (retry: LLMRetry) => void; // called before a failed call is attempted again
+}
+
+export interface SendMessageOptions extends LLMRequestOptions {
+  onContent?: (content: string) => void; // streams the response, called with the text so far
+}
+
+export interface GenerateOutputOptions extends LLMRequestOptions {
+  jsonMode?: boolean; // ask for a JSON object instead of free text
+}
+
+export interface TranscribeAudioOptions extends LLMRequestOptions {
+  onProgress?: (progress: TranscriptionProgress) => void; // called as chunks of a long recording finish
+}
+
+/**
+ * What the pipeline needs from an LLM provider. Messages and tools use the OpenAI chat format,
+ * which the supported providers all speak. Each method serves one pipeline stage: `sendMessage`
+ * the task execution, `generateOutput` the summary and `transcribeAudio` the transcription.
+ */
+export interface LLMClient {
+  isConfigured(): Promise<boolean>;
+  sendMessage(
+    messages: ChatCompletionMessageParam[],
+    tools?: ChatCompletionTool[],
+    options?: SendMessageOptions,
+  ): Promise<ChatCompletion>;
+  generateOutput(
+    systemPrompt: string,
+    userInput: string,
+    options?: GenerateOutputOptions,
+  ): Promise<string>;
+  transcribeAudio(filePath: string, options?: TranscribeAudioOptions): Promise<string>; // a WebVTT transcript
+  checkHealth(): Promise<HealthStatusInfo>; // checks the model of every stage
+}
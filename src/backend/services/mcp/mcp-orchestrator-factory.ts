@@ -1,4 +1,5 @@
-import { OpenAIService } from "../openai/openai-service.js";
+import { LLMService } from "../llm/llm-service.js";
+import type { LLMClient } from "../llm/types.js";
 import { MCPOrchestrator, type MCPOrchestratorOptions } from "./mcp-orchestrator.js";
 
 /**
@@ -7,7 +8,7 @@ import { MCPOrchestrator, type MCPOrchestratorOptions } from "./mcp-orchestrator
  */
 export async function createMcpOrchestrator(
   opts: MCPOrchestratorOptions = {},
-  llmClient: OpenAIService = OpenAIService.getInstance(),
+  llmClient: LLMClient = LLMService.getInstance(),
 ): Promise<MCPOrchestrator> {
   const orchestrator = new MCPOrchestrator(opts, llmClient);
   await orchestrator.initialize();
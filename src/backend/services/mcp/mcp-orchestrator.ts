@@ -1,50 +1,38 @@
-import { BrowserWindow } from "electron";
+import { randomUUID } from "node:crypto";
 import type OpenAI from "openai";
 import type { ChatCompletionMessageParam } from "openai/resources/index.js";
 import { ERROR_MESSAGES } from "../../constants/error-messages.js";
 import type { HealthStatusInfo } from "../../types/index.js";
-import { formatErrorMessage } from "../../utils/error-utils.js";
+import { formatErrorMessage, PipelineError } from "../../utils/error-utils.js";
 import type { VideoUploadResult } from "../auth/types.js";
-import { OpenAIService } from "../openai/openai-service.js";
+import { parsePartialJson } from "../llm/chat-stream.js";
+import { LLMService } from "../llm/llm-service.js";
+import { describeRetry } from "../llm/resilient-call.js";
+import type { LLMClient, LLMUsage } from "../llm/types.js";
 import { McpStorage } from "../storage/mcp-storage.js";
 import { MCPClientWrapper } from "./mcp-client-wrapper.js";
-import type { MCPServerConfig } from "./types.js";
+import { ToolApprovalService } from "./tool-approval-service.js";
+import type { MCPServerConfig, MCPStep } from "./types.js";
+
+// A response is reasoning when it opens with its "reasoning" key, as the task execution prompt asks
+const REASONING_START = /^\s*\{\s*"reasoning"/;
+// How often reasoning that is still streaming is sent on, rather than on every token
+const PARTIAL_REASONING_INTERVAL_MS = 150;
 
 export interface MCPOrchestratorOptions {
   eagerCreate?: boolean; // create all client wrappers at construction
   eagerConnect?: boolean; // connect immediately (implies eagerCreate)
 }
 
-type StepType = "start" | "reasoning" | "tool_call" | "tool_result" | "final_result";
-
-interface MCPStep {
-  type: StepType;
-  message?: string;
-  reasoning?: string;
-  toolName?: string;
-  serverName?: string;
-  args?: Record<string, unknown>;
-  result?: unknown;
-  error?: string;
-  timestamp?: number;
-}
-
 export class MCPOrchestrator {
   private readonly servers: MCPServerConfig[] = [];
   private clients = new Map<string, MCPClientWrapper>();
   private initialized = false;
-  private llmClient: OpenAIService; // TODO: make generic interface for different LLMs https://github.com/SSWConsulting/SSW.YakShaver/issues/3011
+  private llmClient: LLMClient;
   private mcpStorage: McpStorage;
+  private toolApproval = ToolApprovalService.getInstance();
   private opts: MCPOrchestratorOptions;
 
-  private sendStepEvent(event: MCPStep): void {
-    for (const win of BrowserWindow.getAllWindows()) {
-      if (!win.isDestroyed()) {
-        win.webContents.send("mcp:step-update", event);
-      }
-    }
-  }
-
   private static validateServerName(name: string): void {
     if (!name?.trim()) throw new Error("Server name cannot be empty");
     if (!/^[a-zA-Z0-9 _-]+$/.test(name)) {
@@ -58,10 +46,7 @@ export class MCPOrchestrator {
     return name.replace(/[^a-zA-Z0-9_-]/g, "_");
   }
 
-  constructor(
-    opts: MCPOrchestratorOptions = {},
-    llmClient: OpenAIService = OpenAIService.getInstance(),
-  ) {
+  constructor(opts: MCPOrchestratorOptions = {}, llmClient: LLMClient = LLMService.getInstance()) {
     this.llmClient = llmClient;
     this.mcpStorage = McpStorage.getInstance();
     this.opts = opts;
@@ -225,18 +210,25 @@ export class MCPOrchestrator {
       serverFilter?: string[]; // if provided, only include tools from these servers
       systemPrompt?: string;
       maxToolIterations?: number; // safety cap to avoid infinite loops
+      signal?: AbortSignal; // aborts the in-flight LLM request and stops between tool calls
+      model?: string; // instead of the configured task execution model
+      onStep?: (step: MCPStep) => void; // observe step events, e.g. to report and record them
+      onUsage?: (usage: LLMUsage) => void; // called after every LLM call of the loop
     } = {},
   ): Promise<{
     final: string | null;
     transcript: ChatCompletionMessageParam[];
   }> {
     // Check if LLM client is configured
-    if (!this.llmClient.isConfigured()) {
+    if (!(await this.llmClient.isConfigured())) {
       throw new Error(ERROR_MESSAGES.OPENAI_IS_NOT_CONFIGURED);
     }
 
     const videoUrl = videoUploadResult?.data?.url;
 
+    // Reload so server settings edited since the last run (e.g. tool approval) take effect
+    await this.reloadConfig();
+
     // Ensure servers are created (and connect lazily when listing tools)
     const availableServers = await this.listAvailableServers();
     const serverFilter = options.serverFilter;
@@ -245,6 +237,7 @@ export class MCPOrchestrator {
       : availableServers;
 
     const toolDefs: OpenAI.Chat.Completions.ChatCompletionTool[] = [];
+    let unreachableServers = 0;
     for (const server of targetServers) {
       const client = this.getMcpClient(server.name);
       try {
@@ -268,9 +261,15 @@ export class MCPOrchestrator {
         });
       } catch (e) {
         console.warn(`[MCPOrchestrator] Failed to load server ${server.name}`, e);
+        unreachableServers++;
       }
     }
 
+    // Without any of its tools the task can't be executed, only described
+    if (targetServers.length && unreachableServers === targetServers.length) {
+      throw new PipelineError("MCP_SERVER_UNREACHABLE");
+    }
+
     let systemPrompt =
       options.systemPrompt ??
       "You are a helpful AI that can call tools. Use the provided tools to satisfy the user request. When you have the final answer, respond normally so the session can end.";
@@ -284,11 +283,49 @@ export class MCPOrchestrator {
       { role: "user", content: prompt },
     ];
 
-    this.sendStepEvent({ type: "start", message: "Start execute task" });
+    const sendStep = (step: MCPStep) => {
+      options.onStep?.({
+        ...step,
+        id: step.id ?? randomUUID(),
+        timestamp: step.timestamp ?? Date.now(),
+      });
+    };
+
+    sendStep({ type: "start", message: "Start execute task" });
 
     const maxIterations = options.maxToolIterations ?? 30;
     for (let iteration = 0; iteration < maxIterations; iteration++) {
-      const llmResponse = await this.llmClient.sendMessage(messages, toolDefs);
+      options.signal?.throwIfAborted();
+
+      // Reasoning is shown while it streams in, as versions of one step that each replace the last
+      const reasoningStepId = randomUUID();
+      let partialReasoning: string | undefined;
+      let partialSentAt = 0;
+      const llmResponse = await this.llmClient.sendMessage(messages, toolDefs, {
+        model: options.model,
+        signal: options.signal,
+        onUsage: options.onUsage,
+        onRetry: (retry) => {
+          // the next attempt streams its reasoning from the start
+          partialReasoning = undefined;
+          sendStep({ type: "retry", message: describeRetry(retry) });
+        },
+        onContent: (content) => {
+          if (Date.now() - partialSentAt < PARTIAL_REASONING_INTERVAL_MS) return;
+          if (!REASONING_START.test(content)) return;
+          const partial = parsePartialJson(content) as { reasoning?: unknown } | undefined;
+          if (!partial?.reasoning) return;
+
+          partialReasoning = JSON.stringify(partial.reasoning);
+          partialSentAt = Date.now();
+          sendStep({
+            id: reasoningStepId,
+            type: "reasoning",
+            reasoning: partialReasoning,
+            partial: true,
+          });
+        },
+      });
       const choice = llmResponse.choices[0];
       const assistantMessage = choice.message;
       if (assistantMessage) messages.push(assistantMessage);
@@ -296,24 +333,23 @@ export class MCPOrchestrator {
       // Check if assistant message contains reasoning
       if (assistantMessage?.content) {
         const content = assistantMessage.content.trim();
+        let reasoning = partialReasoning;
         try {
           // Try to parse as JSON directly
           const parsed = JSON.parse(content);
-          if (parsed.reasoning) {
-            this.sendStepEvent({
-              type: "reasoning",
-              reasoning: JSON.stringify(parsed.reasoning),
-              timestamp: Date.now(),
-            });
-          }
+          if (parsed.reasoning) reasoning = JSON.stringify(parsed.reasoning);
         } catch (e) {
           console.warn("[MCPOrchestrator] Failed to parse reasoning:", content, e);
         }
+        // Also completes a streamed step whose full response turned out not to be valid JSON
+        if (reasoning) {
+          sendStep({ id: reasoningStepId, type: "reasoning", reasoning, timestamp: Date.now() });
+        }
       }
 
       if (choice.finish_reason === "stop") {
         // Send final result event
-        this.sendStepEvent({
+        sendStep({
           type: "final_result",
           message: "Generate final result",
         });
@@ -342,6 +378,7 @@ export class MCPOrchestrator {
       }
 
       for (const tc of toolCalls) {
+        options.signal?.throwIfAborted();
         if (tc.type !== "function") continue;
 
         const [serverName, toolName] = tc.function.name.split("__", 2);
@@ -354,13 +391,45 @@ export class MCPOrchestrator {
           continue;
         }
 
-        const originalServerName =
-          this.servers.find((s) => MCPOrchestrator.sanitizeServerName(s.name) === serverName)
-            ?.name ?? serverName;
-
-        const args = tc.function.arguments ? JSON.parse(tc.function.arguments) : {};
+        const serverConfig = this.servers.find(
+          (s) => MCPOrchestrator.sanitizeServerName(s.name) === serverName,
+        );
+        const originalServerName = serverConfig?.name ?? serverName;
+
+        let args = tc.function.arguments ? JSON.parse(tc.function.arguments) : {};
+
+        // Hold the call until the user approves, denies or edits it
+        if (this.toolApproval.requiresApproval(serverConfig, toolName)) {
+          const decision = await this.toolApproval.waitForDecision(
+            (approvalId) =>
+              sendStep({
+                type: "tool_approval",
+                approvalId,
+                toolName,
+                serverName: originalServerName,
+                args,
+              }),
+            options.signal,
+          );
+
+          if (!decision.approved) {
+            sendStep({
+              type: "tool_result",
+              toolName,
+              serverName: originalServerName,
+              error: "Tool call denied by the user",
+            });
+            messages.push({
+              role: "tool",
+              tool_call_id: tc.id,
+              content: "The user denied this tool call. Do not call it again with the same intent.",
+            });
+            continue;
+          }
+          args = decision.args ?? args;
+        }
 
-        this.sendStepEvent({
+        sendStep({
           type: "tool_call",
           toolName,
           serverName: originalServerName,
@@ -372,7 +441,7 @@ export class MCPOrchestrator {
           const client = this.getMcpClient(serverName);
           const result = await client.callTool(toolName, args);
 
-          this.sendStepEvent({
+          sendStep({
             type: "tool_result",
             toolName,
             serverName: originalServerName,
@@ -386,7 +455,7 @@ export class MCPOrchestrator {
             content: JSON.stringify(result),
           });
         } catch (err) {
-          this.sendStepEvent({
+          sendStep({
             type: "tool_result",
             toolName,
             serverName: originalServerName,
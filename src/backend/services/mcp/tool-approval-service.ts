@@ -0,0 +1,72 @@
+import { randomUUID } from "node:crypto";
+import type { MCPServerConfig, ToolApprovalDecision } from "./types";
+
+interface PendingApproval {
+  resolve: (decision: ToolApprovalDecision) => void;
+}
+
+const toPatternRegExp = (pattern: string): RegExp => {
+  const escaped = pattern
+    .trim()
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`, "i");
+};
+
+/**
+ * Holds tool calls that are waiting for the user to approve, deny or edit them.
+ * Shared by every orchestrator so the renderer can answer a request without knowing which
+ * orchestrator raised it.
+ */
+export class ToolApprovalService {
+  private static instance: ToolApprovalService;
+  private readonly pending = new Map<string, PendingApproval>();
+
+  static getInstance(): ToolApprovalService {
+    ToolApprovalService.instance ??= new ToolApprovalService();
+    return ToolApprovalService.instance;
+  }
+
+  requiresApproval(server: MCPServerConfig | undefined, toolName: string): boolean {
+    if (!server?.requireToolApproval) return false;
+    return !server.autoApproveTools?.some((pattern) => toPatternRegExp(pattern).test(toolName));
+  }
+
+  /**
+   * Register a pending approval. `onRequest` receives the approval ID to send to the renderer;
+   * the returned promise settles once the user answers, or rejects if the run is aborted.
+   */
+  waitForDecision(
+    onRequest: (approvalId: string) => void,
+    signal?: AbortSignal,
+  ): Promise<ToolApprovalDecision> {
+    signal?.throwIfAborted();
+    const approvalId = randomUUID();
+
+    return new Promise<ToolApprovalDecision>((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(approvalId);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(approvalId, {
+        resolve: (decision) => {
+          signal?.removeEventListener("abort", onAbort);
+          this.pending.delete(approvalId);
+          resolve(decision);
+        },
+      });
+      onRequest(approvalId);
+    });
+  }
+
+  respond(approvalId: string, decision: ToolApprovalDecision): boolean {
+    const pending = this.pending.get(approvalId);
+    if (!pending) return false;
+
+    pending.resolve(decision);
+    return true;
+  }
+}
@@ -6,4 +6,34 @@ export type MCPServerConfig = {
   headers?: Record<string, string>;
   version?: string;
   timeoutMs?: number;
+  requireToolApproval?: boolean; // pause before each tool call until the user approves it
+  autoApproveTools?: string[]; // tool name patterns (`*` wildcard) that never need approval
 };
+
+export type MCPStepType =
+  | "start"
+  | "reasoning"
+  | "tool_approval"
+  | "tool_call"
+  | "tool_result"
+  | "retry" // a failed LLM call waiting to be attempted again
+  | "final_result";
+
+export interface MCPStep {
+  id?: string; // unique per step; missing on steps recorded before steps had IDs
+  type: MCPStepType;
+  message?: string;
+  reasoning?: string;
+  toolName?: string;
+  serverName?: string;
+  args?: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  approvalId?: string; // set on tool_approval steps, echoed back with the user's decision
+  partial?: boolean; // reasoning still streaming in; replaced by the next step with the same id
+  timestamp?: number;
+}
+
+export type ToolApprovalDecision =
+  | { approved: true; args?: Record<string, unknown> } // args replace the model's arguments
+  | { approved: false };
@@ -1,8 +1,12 @@
 import EventEmitter from "node:events";
 import { unlink, writeFile } from "node:fs/promises";
-import { desktopCapturer } from "electron";
+import { BrowserWindow, desktopCapturer } from "electron";
 import tmp from "tmp";
 import { getMainWindow } from "../../index";
+import { IPC_CHANNELS } from "../../ipc/channels";
+import { YouTubeAuthService } from "../auth/youtube-auth";
+import { AppSettingsStorage } from "../storage/app-settings-storage";
+import { RecordingControlBarWindow } from "./control-bar-window";
 import { formatErrorMessage } from "../../utils/error-utils";
 import type { ScreenSource, StartRecordingResult, StopRecordingResult } from "./types";
 import { VideoUploadResult } from "../auth/types";
@@ -12,7 +16,12 @@ export class RecordingService extends EventEmitter {
   private tempFiles = new Map<string, tmp.FileResult>();
   private timer: NodeJS.Timeout | null = null;
   private startTime = 0;
+  private pausedAt: number | null = null;
+  private pausedMs = 0;
+  private markers: number[] = []; // seconds into the recording
   private displayId?: string;
+  private readonly appSettingsStorage = AppSettingsStorage.getInstance();
+  private readonly youtube = YouTubeAuthService.getInstance();
 
   static getInstance() {
     RecordingService.instance ??= new RecordingService();
@@ -23,6 +32,54 @@ export class RecordingService extends EventEmitter {
     return this.displayId;
   }
 
+  isRecording() {
+    return this.timer !== null;
+  }
+
+  /**
+   * Ask the main window to record the last-used source, for the tray and hotkeys.
+   * Resolves false when it can't: the main window is gone or no video platform is connected.
+   */
+  async requestStart(): Promise<boolean> {
+    if (this.isRecording()) return true;
+
+    const mainWindow = getMainWindow();
+    if (!mainWindow || !(await this.youtube.isAuthenticated())) return false;
+
+    const { lastRecordingSourceId } = await this.appSettingsStorage.getSettings();
+    mainWindow.webContents.send(IPC_CHANNELS.START_RECORDING_REQUEST, lastRecordingSourceId);
+    return true;
+  }
+
+  requestStop() {
+    if (!this.isRecording()) return;
+    RecordingControlBarWindow.getInstance().stopRecordingFromControlBar();
+  }
+
+  requestCancel() {
+    if (!this.isRecording()) return;
+    this.stopTimer();
+    RecordingControlBarWindow.getInstance().hide();
+    this.sendToWindows(IPC_CHANNELS.CANCEL_RECORDING_REQUEST);
+  }
+
+  togglePause() {
+    if (!this.isRecording()) return;
+
+    if (this.pausedAt === null) {
+      this.pausedAt = Date.now();
+    } else {
+      this.pausedMs += Date.now() - this.pausedAt;
+      this.pausedAt = null;
+    }
+    this.sendToWindows(IPC_CHANNELS.PAUSE_RECORDING_REQUEST, this.pausedAt !== null);
+  }
+
+  addMarker() {
+    if (!this.isRecording()) return;
+    this.markers.push(this.getElapsedSeconds());
+  }
+
   async handleStartRecording(sourceId?: string): Promise<StartRecordingResult> {
     try {
       this.stopTimer();
@@ -39,6 +96,9 @@ export class RecordingService extends EventEmitter {
 
       this.displayId = selected.display_id;
       this.startTimer();
+      await this.appSettingsStorage
+        .updateSettings({ lastRecordingSourceId: selected.id })
+        .catch((e) => console.error("Failed to remember recording source:", e));
 
       return { success: true, sourceId: selected.id };
     } catch (error) {
@@ -55,7 +115,7 @@ export class RecordingService extends EventEmitter {
       await writeFile(tempFile.name, videoData);
       this.tempFiles.set(tempFile.name, tempFile);
 
-      return { success: true, filePath: tempFile.name };
+      return { success: true, filePath: tempFile.name, markers: this.markers };
     } catch (error) {
       return { success: false, error: formatErrorMessage(error) };
     }
@@ -75,6 +135,13 @@ export class RecordingService extends EventEmitter {
     }
   }
 
+  /**
+   * Stop tracking a recording so it survives app cleanup; the caller becomes responsible for it.
+   */
+  releaseTempFile(filePath: string) {
+    this.tempFiles.delete(filePath);
+  }
+
   async cleanupAllTempFiles() {
     this.stopTimer();
     await Promise.all([...this.tempFiles.keys()].map((path) => this.cleanupTempFile(path)));
@@ -100,18 +167,36 @@ export class RecordingService extends EventEmitter {
     }));
   }
 
+  // Time recorded so far, which stands still while the recording is paused
+  private getElapsedSeconds() {
+    const pausedMs = this.pausedMs + (this.pausedAt === null ? 0 : Date.now() - this.pausedAt);
+    return Math.floor((Date.now() - this.startTime - pausedMs) / 1000);
+  }
+
+  private sendToWindows(channel: string, payload?: unknown) {
+    BrowserWindow.getAllWindows()
+      .filter((win) => !win.isDestroyed() && !win.webContents.isDestroyed())
+      .forEach((win) => {
+        win.webContents.send(channel, payload);
+      });
+  }
+
   private startTimer() {
     this.startTime = Date.now();
+    this.pausedAt = null;
+    this.pausedMs = 0;
+    this.markers = [];
     this.timer = setInterval(() => {
-      const time = Math.floor((Date.now() - this.startTime) / 1000);
-      this.emit("recording-time-update", time);
+      this.emit("recording-time-update", this.getElapsedSeconds());
     }, 1000);
+    this.emit("recording-state-change", true);
   }
 
   private stopTimer() {
     if (this.timer) {
       clearInterval(this.timer);
       this.timer = null;
+      this.emit("recording-state-change", false);
     }
     this.startTime = 0;
     this.displayId = undefined;
@@ -7,6 +7,7 @@ export interface StartRecordingResult {
 export interface StopRecordingResult {
   success: boolean;
   filePath?: string;
+  markers?: number[]; // seconds into the recording the user marked
   error?: string;
 }
 
@@ -0,0 +1,127 @@
+import { join } from "node:path";
+import { BaseSecureStorage } from "./base-secure-storage";
+
+// How long the files a run created are kept once it has completed
+export type ArtifactRetention = "delete_on_success" | "keep_days" | "keep_forever";
+
+export type HotkeyAction =
+  | "startRecording"
+  | "stopRecording"
+  | "pauseRecording"
+  | "addMarker"
+  | "cancelRecording";
+
+// Electron accelerators, e.g. "CommandOrControl+Shift+R"; null leaves the action without a hotkey
+export type HotkeySettings = Record<HotkeyAction, string | null>;
+
+// What a model costs in US dollars, to put a price on the usage of every run
+export interface ModelPrice {
+  model: string; // as configured in the LLM settings, e.g. "gpt-4o"
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  perAudioMinute: number; // for transcription models
+}
+
+export interface AppSettings {
+  reviewTranscript: boolean; // pause after transcription so the transcript can be corrected
+  reviewSummary: boolean; // pause after the summary so it can be edited or regenerated
+  batchConcurrency: number; // how many videos of a batch are processed at the same time
+  artifactRetention: ArtifactRetention;
+  artifactRetentionDays: number; // used by the "keep_days" retention
+  recordingsFolder: string | null; // where a copy of every recording is saved; null saves none
+  recordingFileNameTemplate: string; // e.g. "{date}-{promptName}-{taskTitle}", without extension
+  automationApiEnabled: boolean; // serve the automation API on localhost
+  automationApiPort: number;
+  automationApiToken: string | null; // generated when the API is first enabled
+  startMinimizedToTray: boolean; // launch with the main window hidden in the tray
+  keepRunningInTray: boolean; // closing the main window hides it to the tray instead of quitting
+  lastRecordingSourceId: string | null; // screen or window recorded last, reused by the tray
+  hotkeys: HotkeySettings; // global shortcuts, registered while the app runs
+  modelPrices: ModelPrice[]; // models without a price are logged without a cost
+  llmMaxAttempts: number; // of an LLM call, retried after rate limits and server errors
+  llmRequestTimeoutSeconds: number; // of each attempt
+}
+
+const DEFAULT_APP_SETTINGS: AppSettings = {
+  reviewTranscript: false,
+  reviewSummary: false,
+  batchConcurrency: 2,
+  artifactRetention: "delete_on_success",
+  artifactRetentionDays: 7,
+  recordingsFolder: null,
+  recordingFileNameTemplate: "{date}-{promptName}-{taskTitle}",
+  automationApiEnabled: false,
+  automationApiPort: 47630,
+  automationApiToken: null,
+  startMinimizedToTray: false,
+  keepRunningInTray: false,
+  lastRecordingSourceId: null,
+  hotkeys: {
+    startRecording: null,
+    stopRecording: null,
+    pauseRecording: null,
+    addMarker: null,
+    cancelRecording: null,
+  },
+  modelPrices: [
+    { model: "gpt-4o", inputPerMillionTokens: 2.5, outputPerMillionTokens: 10, perAudioMinute: 0 },
+    {
+      model: "gpt-4o-mini",
+      inputPerMillionTokens: 0.15,
+      outputPerMillionTokens: 0.6,
+      perAudioMinute: 0,
+    },
+    {
+      model: "whisper-1",
+      inputPerMillionTokens: 0,
+      outputPerMillionTokens: 0,
+      perAudioMinute: 0.006,
+    },
+  ],
+  llmMaxAttempts: 4,
+  llmRequestTimeoutSeconds: 300,
+};
+
+const APP_SETTINGS_FILE = "app-settings.enc";
+
+export class AppSettingsStorage extends BaseSecureStorage {
+  private static instance: AppSettingsStorage;
+  private cache: AppSettings | null = null;
+
+  private constructor() {
+    super();
+  }
+
+  static getInstance(): AppSettingsStorage {
+    if (!AppSettingsStorage.instance) {
+      AppSettingsStorage.instance = new AppSettingsStorage();
+    }
+    return AppSettingsStorage.instance;
+  }
+
+  private getSettingsPath(): string {
+    return join(this.storageDir, APP_SETTINGS_FILE);
+  }
+
+  async getSettings(): Promise<AppSettings> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    const stored = await this.decryptAndLoad<Partial<AppSettings>>(this.getSettingsPath());
+    // Fill in settings added after the file was written
+    this.cache = {
+      ...DEFAULT_APP_SETTINGS,
+      ...stored,
+      hotkeys: { ...DEFAULT_APP_SETTINGS.hotkeys, ...stored?.hotkeys },
+    };
+    return this.cache;
+  }
+
+  async updateSettings(updates: Partial<AppSettings>): Promise<AppSettings> {
+    const settings = { ...(await this.getSettings()), ...updates };
+    await this.encryptAndStore(this.getSettingsPath(), settings);
+    this.cache = settings;
+    return settings;
+  }
+}
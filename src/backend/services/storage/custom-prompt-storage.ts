@@ -1,11 +1,15 @@
 import { join } from "node:path";
+import type { RunMode } from "../../types";
 import { BaseSecureStorage } from "./base-secure-storage";
+import type { LLMStageModels } from "./llm-storage";
 
 export interface CustomPrompt {
   id: string;
   name: string;
   description?: string;
   content: string;
+  runMode?: RunMode; // pipeline stages to run while this prompt is active
+  models?: LLMStageModels; // overrides the models from the LLM settings while this prompt is active
   isDefault?: boolean;
   createdAt: number;
   updatedAt: number;
@@ -135,7 +139,7 @@ export class CustomPromptStorage extends BaseSecureStorage {
 
   async updatePrompt(
     id: string,
-    updates: Partial<Pick<CustomPrompt, "name" | "content" | "description">>,
+    updates: Partial<Pick<CustomPrompt, "name" | "content" | "description" | "runMode" | "models">>,
   ): Promise<boolean> {
     const settings = await this.loadSettings();
     const index = settings.prompts.findIndex((p) => p.id === id);
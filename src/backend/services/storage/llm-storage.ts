@@ -2,20 +2,49 @@ import { join } from "node:path";
 import { BaseSecureStorage } from "./base-secure-storage";
 
 // LLM configuration types for backend usage
-export interface OpenAIConfig {
+export type LLMStage = "transcription" | "summary" | "taskExecution";
+
+// Models for the pipeline stages that shouldn't use the provider's default; empty means the default
+export type LLMStageModels = Partial<Record<LLMStage, string>>;
+
+// Transcribes offline with a whisper.cpp binary, so audio never leaves the device
+export interface WhisperCppConfig {
+  provider: "whisper-cpp";
+  modelPath: string; // a ggml model file, e.g. ggml-base.en.bin
+  binaryPath: string; // the whisper-cli binary, which the app doesn't ship
+  language?: string; // detected when left out
+}
+
+// Where audio is transcribed; the LLM provider when left out
+export type TranscriptionConfig = { provider: "llm" } | WhisperCppConfig;
+
+interface BaseLLMConfig {
+  models?: LLMStageModels;
+  transcription?: TranscriptionConfig;
+}
+
+export interface OpenAIConfig extends BaseLLMConfig {
   provider: "openai";
   apiKey: string;
 }
 
-export interface AzureOpenAIConfig {
+export interface AzureOpenAIConfig extends BaseLLMConfig {
   provider: "azure";
   apiKey: string;
   endpoint: string;
   version: string;
-  deployment: string;
+  deployment: string; // stage models are deployment names too
+}
+
+// A self-hosted server with an OpenAI-compatible API, e.g. Ollama, LM Studio or vLLM
+export interface OpenAICompatibleConfig extends BaseLLMConfig {
+  provider: "openai-compatible";
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  apiKey?: string;
+  model: string; // without a transcription model, the server can't transcribe audio
 }
 
-export type LLMConfig = OpenAIConfig | AzureOpenAIConfig;
+export type LLMConfig = OpenAIConfig | AzureOpenAIConfig | OpenAICompatibleConfig;
 
 const LLM_CONFIG_FILE = "llm-config.enc";
 
@@ -0,0 +1,76 @@
+import { join } from "node:path";
+import { BaseSecureStorage } from "./base-secure-storage";
+import type { LLMStage } from "./llm-storage";
+
+// One LLM call of a run, priced when it was made
+export interface UsageEntry {
+  runId: string;
+  stage: LLMStage;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  audioSeconds: number; // of transcribed audio
+  cost: number | null; // in US dollars; null when the model had no price
+  createdAt: number;
+}
+
+interface UsageData {
+  entries: UsageEntry[];
+}
+
+const USAGE_FILE = "usage-log.enc";
+
+/**
+ * The local usage log. Entries outlive the runs they belong to, so monthly totals stay complete
+ * after runs are deleted from the history.
+ */
+export class UsageStorage extends BaseSecureStorage {
+  private static instance: UsageStorage;
+  private cache: UsageData | null = null;
+  private loading: Promise<UsageData> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  private constructor() {
+    super();
+  }
+
+  static getInstance(): UsageStorage {
+    UsageStorage.instance ??= new UsageStorage();
+    return UsageStorage.instance;
+  }
+
+  private getUsagePath(): string {
+    return join(this.storageDir, USAGE_FILE);
+  }
+
+  private async loadUsage(): Promise<UsageData> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    // Calls logged while the file is still loading share one copy, so none of them is lost
+    this.loading ??= this.decryptAndLoad<UsageData>(this.getUsagePath())
+      .then((data) => {
+        this.cache = data || { entries: [] };
+        return this.cache;
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+    return this.loading;
+  }
+
+  async addEntry(entry: UsageEntry): Promise<void> {
+    const data = await this.loadUsage();
+    data.entries.push(entry);
+    // Serialize writes, as the calls of parallel runs are logged at the same time
+    this.pendingWrite = this.pendingWrite
+      .catch(() => {})
+      .then(() => this.encryptAndStore(this.getUsagePath(), data));
+    await this.pendingWrite;
+  }
+
+  async getEntries(): Promise<UsageEntry[]> {
+    return (await this.loadUsage()).entries;
+  }
+}
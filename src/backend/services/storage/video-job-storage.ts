@@ -0,0 +1,222 @@
+import { randomUUID } from "node:crypto";
+import { join } from "node:path";
+import type { ChatCompletionMessageParam } from "openai/resources/index";
+import type { RunMode } from "../../types";
+import type { VideoUploadResult } from "../auth/types";
+import type { MCPStep } from "../mcp/types";
+import { BaseSecureStorage } from "./base-secure-storage";
+
+export type VideoJobStatus = "running" | "interrupted" | "failed" | "cancelled" | "completed";
+
+// Stage results persisted as the pipeline progresses, so a job can resume from the last one
+export interface VideoJobCheckpoints {
+  uploadResult?: VideoUploadResult;
+  mp3FilePath?: string;
+  transcript?: string;
+  intermediateOutput?: string;
+  mcpResult?: {
+    final: string | null;
+    transcript: ChatCompletionMessageParam[];
+  };
+}
+
+export type ArtifactKind = "recording" | "audio";
+
+// A file the run created, which it cleans up according to the artifact retention setting
+export interface RunArtifact {
+  kind: ArtifactKind;
+  path: string;
+  createdAt: number;
+}
+
+export interface VideoJob {
+  id: string; // run ID
+  filePath: string; // empty on runs submitted as a prompt
+  imported?: boolean; // the file belongs to the user, so it is never deleted
+  mode?: RunMode; // missing on jobs created before run modes, which ran in full
+  markers?: number[]; // seconds into the recording the user marked while recording
+  status: VideoJobStatus;
+  checkpoints: VideoJobCheckpoints;
+  steps: MCPStep[]; // task execution timeline, kept for the run history
+  artifacts?: RunArtifact[]; // missing on jobs created before artifacts were tracked
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface VideoJobData {
+  jobs: VideoJob[];
+}
+
+const VIDEO_JOBS_FILE = "video-jobs.enc";
+
+export class VideoJobStorage extends BaseSecureStorage {
+  private static instance: VideoJobStorage;
+  private cache: VideoJobData | null = null;
+  private loading: Promise<VideoJobData> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  private constructor() {
+    super();
+  }
+
+  static getInstance(): VideoJobStorage {
+    if (!VideoJobStorage.instance) {
+      VideoJobStorage.instance = new VideoJobStorage();
+    }
+    return VideoJobStorage.instance;
+  }
+
+  private getJobsPath(): string {
+    return join(this.storageDir, VIDEO_JOBS_FILE);
+  }
+
+  private async loadJobs(): Promise<VideoJobData> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    // Everyone reading the jobs before the file is loaded gets the same copy, so a checkpoint
+    // saved to one copy can't be overwritten by a save of another
+    this.loading ??= this.decryptAndLoad<VideoJobData>(this.getJobsPath())
+      .then((data) => {
+        this.cache = data || { jobs: [] };
+        return this.cache;
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+    return this.loading;
+  }
+
+  private async saveJobs(data: VideoJobData): Promise<void> {
+    this.cache = data;
+    // Serialize writes so concurrent checkpoints never interleave on disk
+    this.pendingWrite = this.pendingWrite
+      .catch(() => {})
+      .then(() => this.encryptAndStore(this.getJobsPath(), data));
+    await this.pendingWrite;
+  }
+
+  async createJob(
+    filePath: string,
+    options?: { imported?: boolean; mode?: RunMode; markers?: number[] },
+  ): Promise<VideoJob> {
+    const data = await this.loadJobs();
+    const job: VideoJob = {
+      id: randomUUID(),
+      filePath,
+      imported: options?.imported,
+      mode: options?.mode,
+      markers: options?.markers?.length ? options.markers : undefined,
+      status: "running",
+      checkpoints: {},
+      steps: [],
+      artifacts: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+
+    data.jobs.push(job);
+    await this.saveJobs(data);
+    return job;
+  }
+
+  async getJob(id: string): Promise<VideoJob | null> {
+    const data = await this.loadJobs();
+    return data.jobs.find((job) => job.id === id) || null;
+  }
+
+  async updateJob(
+    id: string,
+    updates: Partial<Pick<VideoJob, "status" | "error">>,
+  ): Promise<VideoJob | null> {
+    const data = await this.loadJobs();
+    const job = data.jobs.find((j) => j.id === id);
+    if (!job) return null;
+
+    Object.assign(job, updates, { updatedAt: Date.now() });
+    await this.saveJobs(data);
+    return job;
+  }
+
+  async saveCheckpoint<K extends keyof VideoJobCheckpoints>(
+    id: string,
+    key: K,
+    value: VideoJobCheckpoints[K],
+  ): Promise<void> {
+    const data = await this.loadJobs();
+    const job = data.jobs.find((j) => j.id === id);
+    if (!job) return;
+
+    job.checkpoints[key] = value;
+    job.updatedAt = Date.now();
+    await this.saveJobs(data);
+  }
+
+  async addArtifact(id: string, artifact: RunArtifact): Promise<void> {
+    const data = await this.loadJobs();
+    const job = data.jobs.find((j) => j.id === id);
+    if (!job) return;
+
+    job.artifacts = [...(job.artifacts ?? []), artifact];
+    await this.saveJobs(data);
+  }
+
+  async removeArtifacts(id: string, paths: string[]): Promise<void> {
+    const data = await this.loadJobs();
+    const job = data.jobs.find((j) => j.id === id);
+    if (!job) return;
+
+    job.artifacts = (job.artifacts ?? []).filter((artifact) => !paths.includes(artifact.path));
+    await this.saveJobs(data);
+  }
+
+  async appendStep(id: string, step: MCPStep): Promise<void> {
+    const data = await this.loadJobs();
+    const job = data.jobs.find((j) => j.id === id);
+    if (!job) return;
+
+    job.steps.push(step);
+    job.updatedAt = Date.now();
+    await this.saveJobs(data);
+  }
+
+  /**
+   * All runs, newest first. Jobs are never dropped on completion so they double as run history.
+   */
+  async getAllJobs(): Promise<VideoJob[]> {
+    const data = await this.loadJobs();
+    return [...data.jobs].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async getUnfinishedJobs(): Promise<VideoJob[]> {
+    const data = await this.loadJobs();
+    return data.jobs.filter((job) => job.status !== "completed" && job.status !== "cancelled");
+  }
+
+  /**
+   * Any job still marked as running when the app starts was cut off by a crash or quit.
+   */
+  async markRunningJobsInterrupted(): Promise<void> {
+    const data = await this.loadJobs();
+    const running = data.jobs.filter((job) => job.status === "running");
+    if (!running.length) return;
+
+    for (const job of running) {
+      job.status = "interrupted";
+      job.updatedAt = Date.now();
+    }
+    await this.saveJobs(data);
+  }
+
+  async deleteJob(id: string): Promise<boolean> {
+    const data = await this.loadJobs();
+    const index = data.jobs.findIndex((job) => job.id === id);
+    if (index === -1) return false;
+
+    data.jobs.splice(index, 1);
+    await this.saveJobs(data);
+    return true;
+  }
+}
@@ -0,0 +1,116 @@
+import { randomUUID } from "node:crypto";
+import { join } from "node:path";
+import { BaseSecureStorage } from "./base-secure-storage";
+
+export type WebhookEvent = "run.completed" | "run.failed";
+
+export interface WebhookDelivery {
+  event: WebhookEvent | "test";
+  ok: boolean;
+  status?: number; // HTTP status of the last attempt, missing when the request itself failed
+  error?: string;
+  attempts: number;
+  deliveredAt: number;
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string | null; // signs every payload with HMAC-SHA256 when set
+  events: WebhookEvent[];
+  enabled: boolean;
+  lastDelivery?: WebhookDelivery;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type WebhookInput = Pick<Webhook, "url" | "secret" | "events">;
+
+const WEBHOOKS_FILE = "webhooks.enc";
+
+export class WebhookStorage extends BaseSecureStorage {
+  private static instance: WebhookStorage;
+  private cache: Webhook[] | null = null;
+  private loading: Promise<Webhook[]> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  private constructor() {
+    super();
+  }
+
+  static getInstance(): WebhookStorage {
+    WebhookStorage.instance ??= new WebhookStorage();
+    return WebhookStorage.instance;
+  }
+
+  private getWebhooksPath(): string {
+    return join(this.storageDir, WEBHOOKS_FILE);
+  }
+
+  private async saveWebhooks(webhooks: Webhook[]): Promise<void> {
+    // Cached before it is written, so an update made meanwhile builds on this one
+    this.cache = webhooks;
+    // Serialize writes, as the deliveries of a run record their results at the same time
+    this.pendingWrite = this.pendingWrite
+      .catch(() => {})
+      .then(() => this.encryptAndStore(this.getWebhooksPath(), { webhooks }));
+    await this.pendingWrite;
+  }
+
+  async getWebhooks(): Promise<Webhook[]> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    // Everyone reading the webhooks before the file is loaded gets the same list
+    this.loading ??= this.decryptAndLoad<{ webhooks: Webhook[] }>(this.getWebhooksPath())
+      .then((data) => {
+        this.cache = data?.webhooks ?? [];
+        return this.cache;
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+    return this.loading;
+  }
+
+  async getWebhook(id: string): Promise<Webhook | null> {
+    const webhooks = await this.getWebhooks();
+    return webhooks.find((webhook) => webhook.id === id) ?? null;
+  }
+
+  async addWebhook(input: WebhookInput): Promise<Webhook> {
+    const now = Date.now();
+    const webhook: Webhook = {
+      ...input,
+      id: randomUUID(),
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.saveWebhooks([...(await this.getWebhooks()), webhook]);
+    return webhook;
+  }
+
+  async updateWebhook(
+    id: string,
+    updates: Partial<Pick<Webhook, "url" | "secret" | "events" | "enabled" | "lastDelivery">>,
+  ): Promise<Webhook | null> {
+    const webhooks = await this.getWebhooks();
+    const existing = webhooks.find((webhook) => webhook.id === id);
+    if (!existing) return null;
+
+    const updated = { ...existing, ...updates, updatedAt: Date.now() };
+    await this.saveWebhooks(webhooks.map((webhook) => (webhook.id === id ? updated : webhook)));
+    return updated;
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    const webhooks = await this.getWebhooks();
+    const remaining = webhooks.filter((webhook) => webhook.id !== id);
+    if (remaining.length === webhooks.length) return false;
+
+    await this.saveWebhooks(remaining);
+    return true;
+  }
+}
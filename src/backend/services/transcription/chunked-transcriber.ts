@@ -0,0 +1,145 @@
+import fs from "node:fs/promises";
+import { join } from "node:path";
+import tmp from "tmp";
+import { FFmpegService } from "../ffmpeg/ffmpeg-service";
+import type { AudioSilences } from "../ffmpeg/types";
+import type { TranscribeOptions, TranscriptionProvider } from "./types";
+import { formatVtt, parseVtt, type VttCue } from "./vtt";
+
+// The audio API rejects uploads over 25 MB, which a 192k MP3 reaches at about 17 minutes
+const MAX_UPLOAD_BYTES = 24 * 1024 * 1024;
+const CHUNK_SECONDS = 10 * 60;
+// How far back from a chunk's target end to look for a silence to split on
+const SILENCE_SEARCH_SECONDS = 60;
+// Audio each chunk adds on both sides, so words cut at a split are still heard whole by one chunk
+const OVERLAP_SECONDS = 5;
+const CONCURRENCY = 3;
+
+interface AudioChunk {
+  start: number; // the chunk's own part of the audio, without the overlap
+  end: number;
+}
+
+/**
+ * Split the audio into chunks of about `CHUNK_SECONDS`, ending each in the middle of the last
+ * silence before its target end, or at the target end when it has none.
+ */
+const getChunks = ({ duration, silences }: AudioSilences): AudioChunk[] => {
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+  while (duration - start > CHUNK_SECONDS) {
+    const target = start + CHUNK_SECONDS;
+    const end =
+      silences
+        .map((silence) => (silence.start + silence.end) / 2)
+        .filter((middle) => middle <= target && middle > target - SILENCE_SEARCH_SECONDS)
+        .at(-1) ?? target;
+    chunks.push({ start, end });
+    start = end;
+  }
+  chunks.push({ start, end: duration });
+  return chunks;
+};
+
+/**
+ * Transcribes recordings too long for one upload in overlapping chunks, a few at a time, and
+ * stitches their transcripts back together. Shorter recordings go to the wrapped provider as is.
+ */
+export class ChunkedTranscriber implements TranscriptionProvider {
+  private readonly ffmpegService = FFmpegService.getInstance();
+
+  constructor(private readonly transcriber: TranscriptionProvider) {}
+
+  get model(): string | undefined {
+    return this.transcriber.model;
+  }
+
+  async transcribe(filePath: string, options?: TranscribeOptions): Promise<string> {
+    const { size } = await fs.stat(filePath);
+    if (size <= MAX_UPLOAD_BYTES) {
+      return this.transcriber.transcribe(filePath, options);
+    }
+
+    const audio = await this.ffmpegService.DetectSilences(filePath, options?.signal);
+    if (!audio.duration) {
+      throw new Error(`Could not read the duration of: ${filePath}`);
+    }
+    const chunks = getChunks(audio);
+    const totalChunks = chunks.length;
+    options?.onProgress?.({ completedChunks: 0, totalChunks });
+
+    // A failed chunk stops the others rather than leaving them to finish for nothing
+    const failure = new AbortController();
+    const signal = options?.signal
+      ? AbortSignal.any([options.signal, failure.signal])
+      : failure.signal;
+
+    const workDir = tmp.dirSync({ prefix: "transcription-", unsafeCleanup: true });
+    try {
+      const cues: VttCue[][] = [];
+      let completedChunks = 0;
+      const queue = chunks.map((chunk, index) => ({ chunk, index }));
+      const worker = async () => {
+        for (let next = queue.shift(); next; next = queue.shift()) {
+          cues[next.index] = await this.transcribeChunk(
+            filePath,
+            audio.duration,
+            next.chunk,
+            join(workDir.name, `chunk-${next.index}.mp3`),
+            { ...options, signal },
+          );
+          completedChunks++;
+          options?.onProgress?.({ completedChunks, totalChunks });
+        }
+      };
+
+      await Promise.all(
+        Array.from({ length: Math.min(CONCURRENCY, totalChunks) }, () =>
+          worker().catch((error) => {
+            failure.abort();
+            throw error;
+          }),
+        ),
+      );
+      return formatVtt(cues.flat());
+    } finally {
+      workDir.removeCallback();
+    }
+  }
+
+  async checkHealth(): Promise<void> {
+    await this.transcriber.checkHealth();
+  }
+
+  /**
+   * Transcribe the chunk with its overlap, keeping the cues that start in the chunk's own part,
+   * with their times moved from the chunk's audio to the whole recording's.
+   */
+  private async transcribeChunk(
+    filePath: string,
+    duration: number,
+    chunk: AudioChunk,
+    chunkPath: string,
+    options: TranscribeOptions,
+  ): Promise<VttCue[]> {
+    const start = Math.max(0, chunk.start - OVERLAP_SECONDS);
+    const end = Math.min(duration, chunk.end + OVERLAP_SECONDS);
+    await this.ffmpegService.ExtractAudioSegment(
+      filePath,
+      chunkPath,
+      start,
+      end - start,
+      options.signal,
+    );
+
+    const vtt = await this.transcriber.transcribe(chunkPath, {
+      model: options.model,
+      signal: options.signal,
+      onRetry: options.onRetry,
+    });
+    const isLastChunk = chunk.end >= duration;
+    return parseVtt(vtt)
+      .map((cue) => ({ ...cue, start: cue.start + start, end: cue.end + start }))
+      .filter((cue) => cue.start >= chunk.start && (isLastChunk || cue.start < chunk.end));
+  }
+}
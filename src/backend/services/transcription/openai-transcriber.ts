@@ -0,0 +1,46 @@
+import { createReadStream } from "node:fs";
+import type { OpenAI } from "openai";
+import { ERROR_MESSAGES } from "../../constants/error-messages";
+import { callWithRetry } from "../llm/resilient-call";
+import type { TranscribeOptions, TranscriptionProvider } from "./types";
+
+const TRANSCRIPTION_PROMPT = "The name of this app is called YakShaver";
+
+/**
+ * Transcribes through the audio API of the LLM provider.
+ */
+export class OpenAITranscriber implements TranscriptionProvider {
+  constructor(
+    private readonly client: OpenAI,
+    readonly model: string | undefined,
+    private readonly canLookUpModel = true,
+  ) {}
+
+  async transcribe(filePath: string, options?: TranscribeOptions): Promise<string> {
+    const model = options?.model || this.model;
+    if (!model) {
+      throw new Error(ERROR_MESSAGES.TRANSCRIPTION_MODEL_MISSING);
+    }
+    // each attempt reads the file from the start
+    return callWithRetry(
+      (attempt) =>
+        this.client.audio.transcriptions.create(
+          {
+            file: createReadStream(filePath),
+            model,
+            response_format: "vtt",
+            prompt: TRANSCRIPTION_PROMPT,
+          },
+          attempt,
+        ),
+      options,
+    );
+  }
+
+  // Transcribing needs an audio file, so only check that the provider knows the model
+  async checkHealth(): Promise<void> {
+    if (this.model && this.canLookUpModel) {
+      await this.client.models.retrieve(this.model);
+    }
+  }
+}
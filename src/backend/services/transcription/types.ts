@@ -0,0 +1,22 @@
+import type { LLMRetry } from "../llm/resilient-call";
+
+export interface TranscriptionProgress {
+  completedChunks: number;
+  totalChunks: number;
+}
+
+export interface TranscribeOptions {
+  model?: string; // instead of the configured model
+  signal?: AbortSignal;
+  onProgress?: (progress: TranscriptionProgress) => void; // called as chunks of a long recording finish
+  onRetry?: (retry: LLMRetry) => void; // called before a failed request is sent again
+}
+
+/**
+ * Turns a recording's audio into a WebVTT transcript.
+ */
+export interface TranscriptionProvider {
+  readonly model: string | undefined; // shown by the health check
+  transcribe(filePath: string, options?: TranscribeOptions): Promise<string>;
+  checkHealth(): Promise<void>; // throws what would keep it from transcribing
+}
@@ -0,0 +1,48 @@
+export interface VttCue {
+  start: number; // in seconds
+  end: number;
+  text: string;
+}
+
+const TIMING = /^((?:\d+:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}\.\d{3})/;
+
+// "01:02:03.456" or "02:03.456"
+const parseTimestamp = (timestamp: string) =>
+  timestamp.split(":").reduce((seconds, part) => seconds * 60 + parseFloat(part), 0);
+
+const formatTimestamp = (seconds: number) => {
+  const millis = Math.round(seconds * 1000);
+  const hours = Math.floor(millis / 3_600_000);
+  const minutes = Math.floor(millis / 60_000) % 60;
+  const secs = (millis % 60_000) / 1000;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${secs.toFixed(3).padStart(6, "0")}`;
+};
+
+/**
+ * Read the cues of a WebVTT transcript, skipping its header, notes and cue identifiers.
+ */
+export const parseVtt = (vtt: string): VttCue[] =>
+  vtt
+    .replace(/\r\n/g, "\n")
+    .split(/\n{2,}/)
+    .flatMap((block) => {
+      const lines = block.trim().split("\n");
+      const timingIndex = lines.findIndex((line) => TIMING.test(line));
+      const timing = lines[timingIndex]?.match(TIMING);
+      if (!timing) return [];
+      return [
+        {
+          start: parseTimestamp(timing[1]),
+          end: parseTimestamp(timing[2]),
+          text: lines
+            .slice(timingIndex + 1)
+            .join("\n")
+            .trim(),
+        },
+      ];
+    });
+
+export const formatVtt = (cues: VttCue[]): string =>
+  `WEBVTT\n\n${cues
+    .map((cue) => `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text}`)
+    .join("\n\n")}\n`;
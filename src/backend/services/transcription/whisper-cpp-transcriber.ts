@@ -0,0 +1,120 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs/promises";
+import { basename, join } from "node:path";
+import tmp from "tmp";
+import { FFmpegService } from "../ffmpeg/ffmpeg-service";
+import type { WhisperCppConfig } from "../storage/llm-storage";
+import type { TranscribeOptions, TranscriptionProvider } from "./types";
+
+const TRANSCRIPTION_PROMPT = "The name of this app is called YakShaver";
+
+/**
+ * Transcribes offline by shelling out to whisper.cpp, so the audio never leaves the device.
+ */
+export class WhisperCppTranscriber implements TranscriptionProvider {
+  private readonly ffmpegService = FFmpegService.getInstance();
+
+  constructor(private readonly config: WhisperCppConfig) {}
+
+  get model(): string {
+    return `whisper.cpp ${basename(this.config.modelPath)}`;
+  }
+
+  /**
+   * Transcribe with the configured model file; `options.model` is left out, as it names a
+   * provider's model rather than a file.
+   */
+  async transcribe(filePath: string, options?: TranscribeOptions): Promise<string> {
+    const { modelPath } = this.config;
+    await this.checkFiles(modelPath);
+
+    const workDir = tmp.dirSync({ prefix: "whisper-", unsafeCleanup: true });
+    try {
+      // whisper.cpp only reads 16 kHz WAV
+      const wavPath = join(workDir.name, "audio.wav");
+      await this.ffmpegService.ConvertAudioToWav(filePath, wavPath, options?.signal);
+
+      const outputPath = join(workDir.name, "transcript");
+      await this.run(
+        [
+          "--model",
+          modelPath,
+          "--file",
+          wavPath,
+          "--language",
+          this.config.language || "auto",
+          "--prompt",
+          TRANSCRIPTION_PROMPT,
+          "--output-vtt",
+          "--output-file",
+          outputPath, // whisper.cpp adds the .vtt extension
+          "--no-prints",
+        ],
+        options?.signal,
+      );
+      return await fs.readFile(`${outputPath}.vtt`, "utf8");
+    } finally {
+      workDir.removeCallback();
+    }
+  }
+
+  async checkHealth(): Promise<void> {
+    await this.checkFiles(this.config.modelPath);
+  }
+
+  // Better errors than ENOENT from spawn or whisper.cpp's own model loading
+  private async checkFiles(modelPath: string) {
+    // configs saved while the path was optional have none
+    if (!this.config.binaryPath) {
+      throw new Error("whisper-cli path is not set in LLM Settings.");
+    }
+    try {
+      await fs.access(this.config.binaryPath, fs.constants.X_OK);
+    } catch {
+      throw new Error(`whisper.cpp binary not found at: ${this.config.binaryPath}.`);
+    }
+    try {
+      await fs.access(modelPath, fs.constants.R_OK);
+    } catch {
+      throw new Error(`whisper.cpp model not found at: ${modelPath}.`);
+    }
+  }
+
+  private run(args: string[], signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+
+    return new Promise((resolve, reject) => {
+      const whisper = spawn(this.config.binaryPath, args);
+
+      const handleAbort = () => {
+        whisper.kill("SIGKILL");
+        reject(new Error("whisper.cpp transcription cancelled"));
+      };
+      signal?.addEventListener("abort", handleAbort, { once: true });
+
+      // the transcript is read from the output file
+      whisper.stdout.resume();
+      let stderr = "";
+      whisper.stderr.on("data", (data: Buffer) => {
+        stderr += data.toString();
+      });
+
+      whisper.on("close", (code: number | null) => {
+        signal?.removeEventListener("abort", handleAbort);
+        if (signal?.aborted) return;
+        if (code === 0) {
+          resolve();
+        } else {
+          const error = `whisper.cpp exited with code ${code}. Error: ${stderr}`;
+          console.error(error);
+          reject(new Error(error));
+        }
+      });
+
+      whisper.on("error", (error: Error) => {
+        console.error("whisper.cpp spawn error:", error);
+        reject(new Error(`Failed to start whisper.cpp: ${error.message}`));
+      });
+    });
+  }
+}
@@ -0,0 +1,150 @@
+import { app, Menu, type MenuItemConstructorOptions, nativeImage, shell, Tray } from "electron";
+import { pipelineEvents } from "../../events/pipeline-event-emitter";
+import { type PipelineEvent, type PipelineStage, ProgressStage, RUN_END_STAGES } from "../../types";
+import { getRunResultUrl, getRunTitle } from "../../utils/run-utils";
+import { RecordingService } from "../recording/recording-service";
+import { type VideoJob, type VideoJobStatus, VideoJobStorage } from "../storage/video-job-storage";
+
+const ICON_SIZE = 16;
+const RECENT_RUN_COUNT = 5;
+const MAX_TITLE_LENGTH = 40;
+
+const STAGE_LABELS: Partial<Record<PipelineStage, string>> = {
+  [ProgressStage.UPLOADING]: "Uploading video",
+  [ProgressStage.UPLOAD_COMPLETED]: "Video uploaded",
+  [ProgressStage.CONVERTING_AUDIO]: "Converting audio",
+  [ProgressStage.TRANSCRIBING]: "Transcribing",
+  [ProgressStage.TRANSCRIPTION_COMPLETED]: "Transcribed",
+  [ProgressStage.REVIEWING_TRANSCRIPT]: "Waiting for transcript review",
+  [ProgressStage.GENERATING_TASK]: "Generating task",
+  [ProgressStage.REVIEWING_SUMMARY]: "Waiting for summary review",
+  [ProgressStage.EXECUTING_TASK]: "Executing task",
+};
+
+const RUN_STATUS_LABELS: Record<VideoJobStatus, string> = {
+  running: "running",
+  interrupted: "interrupted",
+  failed: "failed",
+  cancelled: "cancelled",
+  completed: "done",
+};
+
+const truncate = (text: string) =>
+  text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+
+/**
+ * The tray icon, so recordings can be started and followed without the main window.
+ * Recording still happens in the main window, which stays loaded while it is hidden.
+ */
+export class AppTray {
+  private static instance: AppTray;
+  private readonly recording = RecordingService.getInstance();
+  private readonly jobStorage = VideoJobStorage.getInstance();
+  private tray: Tray | null = null;
+  private showMainWindow: () => void = () => {};
+  // Latest stage of every run in progress
+  private readonly runStages = new Map<string, PipelineStage>();
+  private recentRuns: VideoJob[] = [];
+
+  static getInstance() {
+    AppTray.instance ??= new AppTray();
+    return AppTray.instance;
+  }
+
+  async initialize(iconPath: string, showMainWindow: () => void): Promise<void> {
+    this.showMainWindow = showMainWindow;
+    const icon = nativeImage
+      .createFromPath(iconPath)
+      .resize({ width: ICON_SIZE, height: ICON_SIZE });
+    this.tray = new Tray(icon);
+    this.tray.setToolTip("YakShaver");
+    this.tray.on("double-click", () => this.showMainWindow());
+
+    this.recording.on("recording-state-change", this.updateMenu);
+    pipelineEvents.on("event", this.handlePipelineEvent);
+    await this.refreshRecentRuns();
+  }
+
+  destroy() {
+    this.recording.off("recording-state-change", this.updateMenu);
+    pipelineEvents.off("event", this.handlePipelineEvent);
+    this.tray?.destroy();
+    this.tray = null;
+  }
+
+  private readonly handlePipelineEvent = (event: PipelineEvent) => {
+    if (event.kind !== "stage") return;
+
+    if (RUN_END_STAGES.includes(event.stage)) {
+      this.runStages.delete(event.runId);
+      void this.refreshRecentRuns().catch((e) => console.error("Failed to list recent runs:", e));
+    } else {
+      this.runStages.set(event.runId, event.stage);
+    }
+    this.updateMenu();
+  };
+
+  private async refreshRecentRuns() {
+    const jobs = await this.jobStorage.getAllJobs();
+    this.recentRuns = jobs.slice(0, RECENT_RUN_COUNT);
+    this.updateMenu();
+  }
+
+  private async startRecording() {
+    // the main window shows how to connect a video platform, which recording needs
+    if (!(await this.recording.requestStart())) this.showMainWindow();
+  }
+
+  private getStatusLabel() {
+    const stages = [...this.runStages.values()];
+    if (stages.length > 1) return `${stages.length} runs in progress`;
+    if (stages.length === 1) return `Status: ${STAGE_LABELS[stages[0]] ?? "Running"}`;
+    return "Status: Idle";
+  }
+
+  private getRecentRunItems(): MenuItemConstructorOptions[] {
+    if (!this.recentRuns.length) return [{ label: "No runs yet", enabled: false }];
+
+    return this.recentRuns.map((job) => {
+      const url = getRunResultUrl(job);
+      return {
+        label: `${truncate(getRunTitle(job))} (${RUN_STATUS_LABELS[job.status]})`,
+        toolTip: url,
+        click: () => {
+          if (url) void shell.openExternal(url);
+          else this.showMainWindow();
+        },
+      };
+    });
+  }
+
+  private readonly updateMenu = () => {
+    if (!this.tray) return;
+
+    const isRecording = this.recording.isRecording();
+    this.tray.setContextMenu(
+      Menu.buildFromTemplate([
+        {
+          label: "Start Recording",
+          enabled: !isRecording,
+          click: () => {
+            void this.startRecording().catch((e) => console.error("Failed to start recording:", e));
+          },
+        },
+        {
+          label: "Stop Recording",
+          enabled: isRecording,
+          click: () => this.recording.requestStop(),
+        },
+        { type: "separator" },
+        { label: this.getStatusLabel(), enabled: false },
+        { type: "separator" },
+        { label: "Recent Runs", enabled: false },
+        ...this.getRecentRunItems(),
+        { type: "separator" },
+        { label: "Open YakShaver", click: () => this.showMainWindow() },
+        { label: "Quit YakShaver", click: () => app.quit() },
+      ]),
+    );
+  };
+}
@@ -0,0 +1,124 @@
+import type { LLMUsage } from "../llm/types";
+import { AppSettingsStorage, type ModelPrice } from "../storage/app-settings-storage";
+import type { LLMStage } from "../storage/llm-storage";
+import { type UsageEntry, UsageStorage } from "../storage/usage-storage";
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  audioSeconds: number;
+  cost: number; // in US dollars, of the calls whose model had a price
+  unpricedCalls: number; // calls whose model had no price, so `cost` leaves them out
+}
+
+export interface RunUsage {
+  runId: string;
+  stages: Partial<Record<LLMStage, UsageTotals>>;
+  total: UsageTotals;
+}
+
+export interface MonthlyUsage {
+  month: string; // e.g. "2026-10", in local time
+  runCount: number;
+  total: UsageTotals;
+}
+
+const emptyTotals = (): UsageTotals => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  audioSeconds: 0,
+  cost: 0,
+  unpricedCalls: 0,
+});
+
+const addEntry = (totals: UsageTotals, entry: UsageEntry) => {
+  totals.promptTokens += entry.promptTokens;
+  totals.completionTokens += entry.completionTokens;
+  totals.audioSeconds += entry.audioSeconds;
+  if (entry.cost === null) {
+    totals.unpricedCalls++;
+  } else {
+    totals.cost += entry.cost;
+  }
+};
+
+const getCost = (usage: Required<LLMUsage>, price: ModelPrice | undefined) =>
+  price
+    ? (usage.promptTokens * price.inputPerMillionTokens +
+        usage.completionTokens * price.outputPerMillionTokens) /
+        1_000_000 +
+      (usage.audioSeconds / 60) * price.perAudioMinute
+    : null;
+
+const getMonth = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+/**
+ * Prices the tokens and audio of every LLM call with the price table in the app settings, logs
+ * them, and totals the log per run and per month.
+ */
+export class UsageService {
+  private static instance: UsageService;
+  private readonly store = UsageStorage.getInstance();
+  private readonly appSettingsStorage = AppSettingsStorage.getInstance();
+
+  static getInstance(): UsageService {
+    UsageService.instance ??= new UsageService();
+    return UsageService.instance;
+  }
+
+  async record(runId: string, stage: LLMStage, usage: LLMUsage): Promise<void> {
+    const { modelPrices } = await this.appSettingsStorage.getSettings();
+    const counted = {
+      model: usage.model,
+      promptTokens: usage.promptTokens ?? 0,
+      completionTokens: usage.completionTokens ?? 0,
+      audioSeconds: usage.audioSeconds ?? 0,
+    };
+    await this.store.addEntry({
+      runId,
+      stage,
+      ...counted,
+      cost: getCost(
+        counted,
+        modelPrices.find((price) => price.model === usage.model),
+      ),
+      createdAt: Date.now(),
+    });
+  }
+
+  async getRunUsage(runId: string): Promise<RunUsage> {
+    const usage: RunUsage = { runId, stages: {}, total: emptyTotals() };
+    for (const entry of await this.store.getEntries()) {
+      if (entry.runId !== runId) continue;
+      const stageTotals = usage.stages[entry.stage] ?? emptyTotals();
+      usage.stages[entry.stage] = stageTotals;
+      addEntry(stageTotals, entry);
+      addEntry(usage.total, entry);
+    }
+    return usage;
+  }
+
+  /**
+   * Totals of every month with usage, newest first.
+   */
+  async getMonthlyUsage(): Promise<MonthlyUsage[]> {
+    const months = new Map<string, { runIds: Set<string>; total: UsageTotals }>();
+    for (const entry of await this.store.getEntries()) {
+      const key = getMonth(entry.createdAt);
+      let month = months.get(key);
+      if (!month) {
+        month = { runIds: new Set(), total: emptyTotals() };
+        months.set(key, month);
+      }
+      month.runIds.add(entry.runId);
+      addEntry(month.total, entry);
+    }
+
+    return [...months.entries()]
+      .map(([month, { runIds, total }]) => ({ month, runCount: runIds.size, total }))
+      .sort((a, b) => b.month.localeCompare(a.month));
+  }
+}
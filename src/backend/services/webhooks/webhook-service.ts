@@ -0,0 +1,179 @@
+import { createHmac, randomUUID } from "node:crypto";
+import { pipelineEvents } from "../../events/pipeline-event-emitter";
+import { type PipelineEvent, ProgressStage, type RunMode } from "../../types";
+import { formatErrorMessage } from "../../utils/error-utils";
+import { getRunTitle } from "../../utils/run-utils";
+import { VideoJobStorage } from "../storage/video-job-storage";
+import {
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+  WebhookStorage,
+} from "../storage/webhook-storage";
+
+// Waits between attempts; a delivery is attempted once more than there are delays
+const RETRY_DELAYS_MS = [2_000, 10_000, 60_000];
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface WebhookPayload {
+  event: WebhookEvent | "test";
+  runId: string;
+  status: "completed" | "failed";
+  mode: RunMode;
+  title: string;
+  videoUrl: string | null;
+  summary: unknown; // the summary the task was generated from, parsed when it is JSON
+  finalResult: unknown; // the run's final output, parsed when it is JSON
+  error: string | null;
+  sentAt: string;
+}
+
+const TEST_PAYLOAD: Omit<WebhookPayload, "sentAt"> = {
+  event: "test",
+  runId: "test",
+  status: "completed",
+  mode: "full",
+  title: "Test delivery",
+  videoUrl: "https://www.youtube.com/watch?v=test",
+  summary: { taskType: "Test delivery" },
+  finalResult: { Title: "Test delivery" },
+  error: null,
+};
+
+const parseJsonOrText = (value?: string | null): unknown => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Worth another attempt: the request didn't get through, or the receiver may recover
+const isRetryable = (status?: number) => status === undefined || status === 429 || status >= 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * POSTs a JSON payload to the configured webhooks when a run completes or fails.
+ * Payloads of webhooks with a secret carry an `X-YakShaver-Signature: sha256=<hex>` header, the
+ * HMAC-SHA256 of the raw body. Retries of one delivery share its `X-YakShaver-Delivery` id.
+ */
+export class WebhookService {
+  private static instance: WebhookService;
+  private readonly storage = WebhookStorage.getInstance();
+  private readonly jobStorage = VideoJobStorage.getInstance();
+
+  private constructor() {
+    pipelineEvents.on("event", (event) => {
+      void this.handleEvent(event).catch((e) =>
+        console.error("Failed to send run webhooks:", formatErrorMessage(e)),
+      );
+    });
+  }
+
+  static getInstance() {
+    WebhookService.instance ??= new WebhookService();
+    return WebhookService.instance;
+  }
+
+  /**
+   * Send a sample payload once, without retries, so a receiver can be checked while setting it up.
+   */
+  async sendTest(id: string): Promise<WebhookDelivery> {
+    const webhook = await this.storage.getWebhook(id);
+    if (!webhook) {
+      throw new Error(`webhook-service: Webhook '${id}' not found`);
+    }
+    return this.deliver(webhook, { ...TEST_PAYLOAD, sentAt: new Date().toISOString() }, 1);
+  }
+
+  private async handleEvent(event: PipelineEvent) {
+    if (event.kind !== "stage") return;
+    if (event.stage !== ProgressStage.COMPLETED && event.stage !== ProgressStage.ERROR) return;
+
+    const webhookEvent: WebhookEvent =
+      event.stage === ProgressStage.COMPLETED ? "run.completed" : "run.failed";
+    const webhooks = (await this.storage.getWebhooks()).filter(
+      (webhook) => webhook.enabled && webhook.events.includes(webhookEvent),
+    );
+    if (!webhooks.length) return;
+
+    const job = await this.jobStorage.getJob(event.runId);
+    const payload: WebhookPayload = {
+      event: webhookEvent,
+      runId: event.runId,
+      status: event.stage === ProgressStage.COMPLETED ? "completed" : "failed",
+      mode: event.mode,
+      title: job ? getRunTitle(job) : "Untitled run",
+      videoUrl: job?.checkpoints.uploadResult?.data?.url ?? null,
+      summary: parseJsonOrText(job?.checkpoints.intermediateOutput),
+      finalResult:
+        event.stage === ProgressStage.COMPLETED ? parseJsonOrText(event.payload.finalOutput) : null,
+      error: event.stage === ProgressStage.ERROR ? event.payload.error : null,
+      sentAt: new Date().toISOString(),
+    };
+
+    await Promise.all(
+      webhooks.map((webhook) => this.deliver(webhook, payload, RETRY_DELAYS_MS.length + 1)),
+    );
+  }
+
+  private async deliver(
+    webhook: Webhook,
+    payload: WebhookPayload,
+    maxAttempts: number,
+  ): Promise<WebhookDelivery> {
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "YakShaver-Webhooks",
+      "X-YakShaver-Event": payload.event,
+      "X-YakShaver-Delivery": randomUUID(),
+    };
+    if (webhook.secret) {
+      const signature = createHmac("sha256", webhook.secret).update(body).digest("hex");
+      headers["X-YakShaver-Signature"] = `sha256=${signature}`;
+    }
+
+    let delivery: WebhookDelivery;
+    let attempts = 0;
+    while (true) {
+      attempts++;
+      delivery = await this.post(webhook.url, headers, body).then((result) => ({
+        ...result,
+        event: payload.event,
+        attempts,
+        deliveredAt: Date.now(),
+      }));
+      if (delivery.ok || attempts >= maxAttempts || !isRetryable(delivery.status)) break;
+      await sleep(RETRY_DELAYS_MS[attempts - 1]);
+    }
+
+    await this.storage
+      .updateWebhook(webhook.id, { lastDelivery: delivery })
+      .catch((e) => console.error("Failed to record webhook delivery:", formatErrorMessage(e)));
+    return delivery;
+  }
+
+  private async post(
+    url: string,
+    headers: Record<string, string>,
+    body: string,
+  ): Promise<Pick<WebhookDelivery, "ok" | "status" | "error">> {
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      void response.body?.cancel(); // only the status matters
+      return response.ok
+        ? { ok: true, status: response.status }
+        : { ok: false, status: response.status, error: `HTTP ${response.status}` };
+    } catch (error) {
+      return { ok: false, error: formatErrorMessage(error) };
+    }
+  }
+}
@@ -1,3 +1,7 @@
+import type { ErrorCode } from "../constants/error-messages";
+import type { VideoUploadResult } from "../services/auth/types";
+import type { MCPStep } from "../services/mcp/types";
+
 export interface HealthStatusInfo {
   isHealthy: boolean;
   error?: string;
@@ -6,12 +10,133 @@ export interface HealthStatusInfo {
 
 export enum ProgressStage {
   IDLE = "idle",
+  UPLOADING = "uploading",
   UPLOAD_COMPLETED = "upload_completed",
   CONVERTING_AUDIO = "converting_audio",
   TRANSCRIBING = "transcribing",
   TRANSCRIPTION_COMPLETED = "transcription_completed",
+  REVIEWING_TRANSCRIPT = "reviewing_transcript",
   GENERATING_TASK = "generating_task",
+  REVIEWING_SUMMARY = "reviewing_summary",
   EXECUTING_TASK = "executing_task",
   ERROR = "error",
+  CANCELLED = "cancelled",
   COMPLETED = "completed",
 }
+
+// Upload and audio transcription run side by side; their progress events are tagged with the branch
+export type PipelineBranch = "upload" | "transcription";
+
+export type RunMode = "full" | "local_only" | "summary_only" | "transcript_only" | "upload_only";
+
+// Which parts of the pipeline each run mode includes
+export const RUN_MODE_STEPS: Record<
+  RunMode,
+  { upload: boolean; transcribe: boolean; summarize: boolean; execute: boolean }
+> = {
+  full: { upload: true, transcribe: true, summarize: true, execute: true },
+  local_only: { upload: false, transcribe: true, summarize: true, execute: true },
+  summary_only: { upload: true, transcribe: true, summarize: true, execute: false },
+  transcript_only: { upload: false, transcribe: true, summarize: false, execute: false },
+  upload_only: { upload: true, transcribe: false, summarize: false, execute: false },
+};
+
+export type BatchItemStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface BatchItem {
+  filePath: string;
+  status: BatchItemStatus;
+  runId?: string; // set once the item's run has started
+  stage?: ProgressStage; // latest stage the run reported
+  title?: string; // title of the task the run created
+  videoUrl?: string;
+  error?: string;
+}
+
+export interface BatchProgress {
+  batchId: string;
+  items: BatchItem[];
+  finished: boolean;
+}
+
+// The user's answer at a review gate; `content` is the reviewed transcript or summary
+export type ReviewDecision = { action: "continue"; content: string } | { action: "regenerate" };
+
+export type PipelineErrorCode = ErrorCode | "UNKNOWN";
+
+// A fix the UI can offer for a failed run, rendered as a button next to the error
+export type ErrorRemediation = "open_llm_settings" | "open_mcp_settings" | "connect_youtube";
+
+export interface PipelineFailure {
+  code: PipelineErrorCode;
+  error: string; // what went wrong, in words the user can act on
+  detail?: string; // the underlying error, when `error` only describes what kind of failure it was
+  failedStage?: PipelineStage;
+  remediation?: ErrorRemediation;
+}
+
+// Typed payload of each stage a run reports
+export interface PipelineStagePayloads {
+  [ProgressStage.UPLOADING]: { branch: "upload" };
+  [ProgressStage.UPLOAD_COMPLETED]: { branch: "upload"; uploadResult: VideoUploadResult };
+  [ProgressStage.CONVERTING_AUDIO]: { branch: "transcription" };
+  [ProgressStage.TRANSCRIBING]: {
+    branch: "transcription";
+    chunks?: { completed: number; total: number }; // set while a long recording is transcribed in chunks
+    retry?: string; // set while a failed request waits to be sent again
+  };
+  [ProgressStage.TRANSCRIPTION_COMPLETED]: { branch: "transcription"; transcript: string };
+  [ProgressStage.REVIEWING_TRANSCRIPT]: { transcript: string };
+  [ProgressStage.GENERATING_TASK]: {
+    transcript: string;
+    retry?: string; // set while a failed request waits to be sent again
+  };
+  [ProgressStage.REVIEWING_SUMMARY]: { transcript: string; intermediateOutput: string };
+  [ProgressStage.EXECUTING_TASK]: { transcript?: string; intermediateOutput: string };
+  [ProgressStage.COMPLETED]: {
+    transcript?: string;
+    intermediateOutput?: string;
+    finalOutput?: string | null;
+    videoFilePath?: string; // set when the run kept the video instead of uploading it
+    recordingCopyPath?: string; // set when a copy of the recording was saved to the recordings folder
+    recordingCopyError?: string; // set when saving that copy failed
+  };
+  [ProgressStage.ERROR]: PipelineFailure;
+  [ProgressStage.CANCELLED]: Record<string, never>;
+}
+
+export type PipelineStage = keyof PipelineStagePayloads;
+
+// Stages that end a run, whether it completed, failed or was cancelled
+export const RUN_END_STAGES: PipelineStage[] = [
+  ProgressStage.COMPLETED,
+  ProgressStage.ERROR,
+  ProgressStage.CANCELLED,
+];
+
+interface PipelineEventBase {
+  runId: string;
+  seq: number; // increases with every event, including those of a retried run, so stale ones show
+  mode: RunMode;
+  batchId?: string;
+  external?: boolean; // submitted from outside the UI, e.g. through the automation API
+  startedAt: number; // when the stage started
+  endedAt?: number; // set on events that finish a stage, a branch or the run
+}
+
+export type PipelineStageEvent = {
+  [S in PipelineStage]: PipelineEventBase & {
+    kind: "stage";
+    stage: S;
+    payload: PipelineStagePayloads[S];
+  };
+}[PipelineStage];
+
+// A task execution step, reported while the run is executing its task
+export interface PipelineStepEvent extends PipelineEventBase {
+  kind: "step";
+  stage: ProgressStage.EXECUTING_TASK;
+  payload: { step: MCPStep };
+}
+
+export type PipelineEvent = PipelineStageEvent | PipelineStepEvent;
@@ -1,3 +1,13 @@
+import { APIError } from "openai";
+import { ERROR_MESSAGES, type ErrorCode } from "../constants/error-messages";
+import {
+  type ErrorRemediation,
+  type PipelineErrorCode,
+  type PipelineFailure,
+  type PipelineStage,
+  ProgressStage,
+} from "../types";
+
 /**
  * Formats an unknown error into a string message.
  * Useful for handling errors in catch blocks where the error type is unknown.
@@ -17,3 +27,72 @@
 export function formatErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : String(error);
 }
+
+/**
+ * An error whose kind is already known where it is thrown, so it needn't be guessed from its message.
+ */
+export class PipelineError extends Error {
+  constructor(
+    readonly code: PipelineErrorCode,
+    message: string = code === "UNKNOWN" ? "Unknown error" : ERROR_MESSAGES[code],
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "PipelineError";
+  }
+}
+
+const REMEDIATIONS: Partial<Record<PipelineErrorCode, ErrorRemediation>> = {
+  LLM_NOT_CONFIGURED: "open_llm_settings",
+  AZURE_DEPLOYMENT_MISSING: "open_llm_settings",
+  TRANSCRIPTION_MODEL_MISSING: "open_llm_settings",
+  OPENAI_IS_NOT_CONFIGURED: "open_llm_settings",
+  LLM_AUTH_FAILED: "open_llm_settings",
+  YOUTUBE_NOT_CONNECTED: "connect_youtube",
+  YOUTUBE_AUTH_EXPIRED: "connect_youtube",
+  MCP_SERVER_UNREACHABLE: "open_mcp_settings",
+};
+
+// What an otherwise unrecognised failure means, by the stage it happened in
+const STAGE_ERROR_CODES: Partial<Record<PipelineStage, PipelineErrorCode>> = {
+  [ProgressStage.UPLOADING]: "UPLOAD_FAILED",
+  [ProgressStage.CONVERTING_AUDIO]: "FFMPEG_FAILED",
+  [ProgressStage.TRANSCRIBING]: "TRANSCRIPTION_FAILED",
+};
+
+const getErrorCode = (error: unknown, stage?: PipelineStage): PipelineErrorCode => {
+  if (error instanceof PipelineError) return error.code;
+
+  // Only the LLM calls go through the OpenAI client
+  if (error instanceof APIError) {
+    if (error.status === 401 || error.status === 403) return "LLM_AUTH_FAILED";
+    if (error.status === 429) return "LLM_QUOTA_EXCEEDED";
+  }
+
+  const message = formatErrorMessage(error);
+  const code = (Object.keys(ERROR_MESSAGES) as ErrorCode[]).find(
+    (key) => ERROR_MESSAGES[key] === message,
+  );
+  return code ?? (stage && STAGE_ERROR_CODES[stage]) ?? "UNKNOWN";
+};
+
+/**
+ * Classifies a failed run's error, so the UI can tell the user what went wrong in the given stage
+ * and offer a fix.
+ * Errors recognised only by their kind are described by their code's message, keeping the
+ * original one as detail.
+ */
+export function classifyPipelineError(error: unknown, stage?: PipelineStage): PipelineFailure {
+  const code = getErrorCode(error, stage);
+  const message = formatErrorMessage(error);
+  const describedByCode =
+    code !== "UNKNOWN" && !(error instanceof PipelineError) && message !== ERROR_MESSAGES[code];
+
+  return {
+    code,
+    error: describedByCode ? ERROR_MESSAGES[code] : message,
+    detail: describedByCode ? message : undefined,
+    failedStage: stage,
+    remediation: REMEDIATIONS[code],
+  };
+}
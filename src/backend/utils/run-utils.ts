@@ -0,0 +1,99 @@
+import type { VideoJob, VideoJobStatus } from "../services/storage/video-job-storage";
+
+export interface RunSummary {
+  id: string;
+  status: VideoJobStatus;
+  title: string;
+  videoUrl?: string;
+  error?: string;
+  createdAt: number;
+}
+
+const parseJson = (value?: string | null): Record<string, unknown> | null => {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getRunTitle = ({ checkpoints }: VideoJob): string => {
+  const finalOutput = parseJson(checkpoints.mcpResult?.final);
+  const title = finalOutput?.Title ?? finalOutput?.Name;
+  if (typeof title === "string" && title.trim()) return title;
+
+  const taskType = parseJson(checkpoints.intermediateOutput)?.taskType;
+  if (typeof taskType === "string" && taskType.trim()) return taskType;
+
+  return "Untitled run";
+};
+
+/**
+ * Where the run's result can be seen: the first link in its final output, like the created issue,
+ * or else its video.
+ */
+export const getRunResultUrl = ({ checkpoints }: VideoJob): string | undefined => {
+  const finalOutput = parseJson(checkpoints.mcpResult?.final);
+  const link = Object.values(finalOutput ?? {}).find(
+    (value): value is string => typeof value === "string" && /^https?:\/\//.test(value),
+  );
+  return link ?? checkpoints.uploadResult?.data?.url;
+};
+
+export const toRunSummary = (job: VideoJob): RunSummary => ({
+  id: job.id,
+  status: job.status,
+  title: getRunTitle(job),
+  videoUrl: job.checkpoints.uploadResult?.data?.url,
+  error: job.error,
+  createdAt: job.createdAt,
+});
+
+/**
+ * Whether the run's title, video URL or any of its outputs contain the lower-cased query.
+ */
+export const matchesRunQuery = (job: VideoJob, query: string): boolean => {
+  const { checkpoints } = job;
+  return [
+    getRunTitle(job),
+    checkpoints.uploadResult?.data?.url,
+    checkpoints.transcript,
+    checkpoints.intermediateOutput,
+    checkpoints.mcpResult?.final,
+  ].some((field) => field?.toLowerCase().includes(query));
+};
+
+// Characters file names can't contain on at least one platform
+const INVALID_FILE_NAME_CHARS = /[<>:"/\\|?*]/g;
+
+const toFileName = (value: string, maxLength: number) =>
+  value.replace(INVALID_FILE_NAME_CHARS, "-").replace(/\s+/g, " ").trim().slice(0, maxLength);
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Name a run's recording from a template like `{date}-{promptName}-{taskTitle}`. The placeholders
+ * are `{date}`, `{time}`, `{promptName}`, `{taskTitle}` and `{runId}`; unknown ones are kept as
+ * written. The name has no extension.
+ */
+export const getRecordingFileName = (
+  job: VideoJob,
+  template: string,
+  promptName: string,
+): string => {
+  const createdAt = new Date(job.createdAt);
+  const values: Record<string, string> = {
+    date: `${createdAt.getFullYear()}-${pad(createdAt.getMonth() + 1)}-${pad(createdAt.getDate())}`,
+    time: `${pad(createdAt.getHours())}${pad(createdAt.getMinutes())}${pad(createdAt.getSeconds())}`,
+    promptName,
+    taskTitle: getRunTitle(job),
+    runId: job.id,
+  };
+
+  const fileName = template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    Object.hasOwn(values, key) ? toFileName(values[key], 80) : placeholder,
+  );
+  return toFileName(fileName, 200) || job.id;
+};
@@ -1,16 +1,20 @@
 import { Toaster } from "sonner";
 import "./App.css";
 import logoImage from "/logos/YakShaver-Vertical-Color-Darkmode.svg?url";
+import { BatchProgressPanel } from "./components/batch/BatchProgressPanel";
 import { VideoHostPanel } from "./components/layout/VideoHostPanel";
 import { WorkflowProgressPanel } from "./components/workflow/WorkflowProgressPanel";
 import { FinalResultPanel } from "./components/workflow/FinalResultPanel";
+import { UnfinishedJobsDialog } from "./components/workflow/UnfinishedJobsDialog";
 import { ScreenRecorder } from "./components/recording/ScreenRecorder";
+import { SettingsDialogProvider } from "./contexts/SettingsDialogContext";
 import { YouTubeAuthProvider } from "./contexts/YouTubeAuthContext";
 
 export default function App() {
   return (
     <div className="min-h-screen py-8 text-white">
       <Toaster />
+      <UnfinishedJobsDialog />
       <div className="fixed inset-0 bg-[url('/background/YakShaver-Background.jpg')] bg-cover bg-center bg-no-repeat"></div>
 
       <div className="flex flex-col gap-8">
@@ -23,12 +27,15 @@ export default function App() {
         </header>
 
         <main className="z-10 relative">
-          <YouTubeAuthProvider>
-            <ScreenRecorder />
-            <VideoHostPanel />
-          </YouTubeAuthProvider>
-          <WorkflowProgressPanel />
-          <FinalResultPanel />
+          <SettingsDialogProvider>
+            <YouTubeAuthProvider>
+              <ScreenRecorder />
+              <VideoHostPanel />
+              <BatchProgressPanel />
+              <WorkflowProgressPanel />
+              <FinalResultPanel />
+            </YouTubeAuthProvider>
+          </SettingsDialogProvider>
         </main>
       </div>
     </div>
@@ -0,0 +1,170 @@
+import { Ban, ExternalLink, Loader2, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ipcClient } from "../../services/ipc-client";
+import {
+  type BatchItem,
+  type BatchProgress,
+  type MCPStep,
+  STAGE_CONFIG,
+  type ToolApprovalDecision,
+} from "../../types";
+import { formatErrorMessage } from "../../utils";
+import { RunStatusBadge } from "../history/RunStatusBadge";
+import { Button } from "../ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { ToolApprovalRequest } from "../workflow/ToolApprovalRequest";
+
+const getFileName = (filePath: string) => filePath.split(/[\\/]/).pop() ?? filePath;
+
+const getSummary = (items: BatchItem[]) => {
+  const count = (status: BatchItem["status"]) =>
+    items.filter((item) => item.status === status).length;
+  return [
+    `${count("completed")} of ${items.length} processed`,
+    count("failed") && `${count("failed")} failed`,
+    count("cancelled") && `${count("cancelled")} cancelled`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+};
+
+export function BatchProgressPanel() {
+  const [batch, setBatch] = useState<BatchProgress | null>(null);
+  // Tool calls waiting for approval, by the run that asked
+  const [pendingApprovals, setPendingApprovals] = useState<Record<string, MCPStep>>({});
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  useEffect(() => {
+    return ipcClient.pipelines.onBatchProgress((progress) => {
+      setBatch(progress);
+      if (progress.finished) setIsCancelling(false);
+    });
+  }, []);
+
+  useEffect(() => {
+    return ipcClient.workflow.onEvent((event) => {
+      if (!event.batchId || event.kind !== "step") return;
+
+      const { runId } = event;
+      const { step } = event.payload;
+      setPendingApprovals((prev) => {
+        // Any later step of the run means its approval was answered
+        const { [runId]: _answered, ...rest } = prev;
+        return step.type === "tool_approval" ? { ...rest, [runId]: step } : rest;
+      });
+    });
+  }, []);
+
+  const handleCancel = async () => {
+    if (!batch) return;
+    setIsCancelling(true);
+    try {
+      const cancelled = await ipcClient.pipelines.cancelBatch(batch.batchId);
+      if (!cancelled) setIsCancelling(false);
+    } catch (e) {
+      setIsCancelling(false);
+      toast.error(`Failed to cancel batch: ${formatErrorMessage(e)}`);
+    }
+  };
+
+  const handleApprovalResponse = async (approvalId: string, decision: ToolApprovalDecision) => {
+    try {
+      const accepted = await ipcClient.mcp.respondToolApproval(approvalId, decision);
+      if (!accepted) toast.error("This tool call is no longer waiting for approval");
+    } catch (e) {
+      toast.error(`Failed to send approval: ${formatErrorMessage(e)}`);
+    }
+  };
+
+  if (!batch) return null;
+
+  return (
+    <div className="w-[500px] mx-auto my-4">
+      <Card className="bg-black/20 backdrop-blur-md border-white/10">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-white text-xl">Batch Progress</CardTitle>
+          {batch.finished ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="cursor-pointer"
+              onClick={() => setBatch(null)}
+            >
+              <X className="w-4 h-4" />
+              Dismiss
+            </Button>
+          ) : (
+            <Button
+              variant="destructive"
+              size="sm"
+              className="cursor-pointer"
+              onClick={handleCancel}
+              disabled={isCancelling}
+            >
+              {isCancelling ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Ban className="w-4 h-4" />
+              )}
+              {isCancelling ? "Cancelling..." : "Cancel Batch"}
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="flex flex-col gap-2">
+          <p className="text-white/60 text-sm">{getSummary(batch.items)}</p>
+          {batch.items.map((item) => {
+            const pendingApproval = item.runId ? pendingApprovals[item.runId] : undefined;
+
+            return (
+              <div
+                key={item.filePath}
+                className="flex flex-col gap-2 p-3 bg-black/30 border border-white/10 rounded-md"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white text-sm font-medium truncate">
+                      {getFileName(item.filePath)}
+                    </p>
+                    {item.status === "running" && item.stage && (
+                      <p className="text-white/60 text-xs">{STAGE_CONFIG[item.stage]}</p>
+                    )}
+                    {item.status === "completed" && item.title && (
+                      <p className="text-white/80 text-xs truncate">{item.title}</p>
+                    )}
+                    {item.error && <p className="text-red-400 text-xs truncate">{item.error}</p>}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {item.videoUrl && (
+                      <a
+                        href={item.videoUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-white/60 hover:text-white"
+                        title="Open video"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    )}
+                    <RunStatusBadge status={item.status} />
+                  </div>
+                </div>
+                {item.status === "running" && pendingApproval?.approvalId && (
+                  <ToolApprovalRequest
+                    key={pendingApproval.approvalId}
+                    toolName={pendingApproval.toolName}
+                    serverName={pendingApproval.serverName}
+                    args={pendingApproval.args}
+                    onRespond={(decision) =>
+                      handleApprovalResponse(pendingApproval.approvalId as string, decision)
+                    }
+                  />
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
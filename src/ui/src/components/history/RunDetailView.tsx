@@ -0,0 +1,122 @@
+import { ArrowLeft, ExternalLink, Trash2 } from "lucide-react";
+import type React from "react";
+import type { VideoJob } from "../../types";
+import { Button } from "../ui/button";
+import { ScrollArea } from "../ui/scroll-area";
+import { JsonResultDisplay, RawTextDisplay } from "../workflow/FinalResultPanel";
+import { McpStepTimeline } from "../workflow/McpStepTimeline";
+import { RunStatusBadge } from "./RunStatusBadge";
+
+interface RunDetailViewProps {
+  run: VideoJob;
+  onBack: () => void;
+  onDelete: () => void;
+}
+
+const parseFinalOutput = (final: string) => {
+  try {
+    const parsed = JSON.parse(final);
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+function DetailSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wide">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+export function RunDetailView({ run, onBack, onDelete }: RunDetailViewProps) {
+  const { uploadResult, transcript, intermediateOutput, mcpResult } = run.checkpoints;
+  const videoUrl = uploadResult?.data?.url;
+  const finalOutput = mcpResult?.final;
+  const parsedFinalOutput = finalOutput ? parseFinalOutput(finalOutput) : null;
+
+  return (
+    <div className="flex flex-col gap-4 h-full overflow-hidden">
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="ghost" size="sm" className="cursor-pointer" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <div className="flex items-center gap-2">
+          <RunStatusBadge status={run.status} />
+          <Button
+            variant="destructive"
+            size="sm"
+            className="cursor-pointer"
+            disabled={run.status === "running"}
+            onClick={onDelete}
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </Button>
+        </div>
+      </div>
+      <ScrollArea className="h-[60vh]">
+        <div className="flex flex-col space-y-6 pr-4">
+          <DetailSection title="Started">
+            <p className="text-sm text-white/90">{new Date(run.createdAt).toLocaleString()}</p>
+          </DetailSection>
+
+          {videoUrl && (
+            <DetailSection title="Video">
+              <a
+                href={videoUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 text-sm text-white/90 hover:text-white underline break-all"
+              >
+                {videoUrl}
+                <ExternalLink className="w-3.5 h-3.5 shrink-0" />
+              </a>
+            </DetailSection>
+          )}
+
+          {run.error && (
+            <DetailSection title="Error">
+              <p className="text-sm text-red-400 whitespace-pre-wrap">{run.error}</p>
+            </DetailSection>
+          )}
+
+          {transcript && (
+            <DetailSection title="Transcript">
+              <div className="p-3 bg-black/30 border border-white/10 rounded-md text-white/80 text-sm whitespace-pre-wrap max-h-[300px] overflow-y-auto">
+                {transcript}
+              </div>
+            </DetailSection>
+          )}
+
+          {intermediateOutput && (
+            <DetailSection title="Analysis">
+              <div className="p-3 bg-black/30 border border-white/10 rounded-md text-white/80 text-xs font-mono whitespace-pre-wrap max-h-[300px] overflow-y-auto">
+                {intermediateOutput}
+              </div>
+            </DetailSection>
+          )}
+
+          {run.steps.length > 0 && (
+            <DetailSection title="Task execution">
+              <McpStepTimeline steps={run.steps} />
+            </DetailSection>
+          )}
+
+          {finalOutput && (
+            <DetailSection title="Final result">
+              {parsedFinalOutput ? (
+                <JsonResultDisplay data={parsedFinalOutput} />
+              ) : (
+                <RawTextDisplay content={finalOutput} />
+              )}
+            </DetailSection>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
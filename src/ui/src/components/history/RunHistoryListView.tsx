@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ipcClient } from "../../services/ipc-client";
+import type { RunSummary } from "../../types";
+import { formatErrorMessage } from "../../utils";
+import { SearchBar } from "../common/SearchBar";
+import { ScrollArea } from "../ui/scroll-area";
+import { Separator } from "../ui/separator";
+import { RunStatusBadge } from "./RunStatusBadge";
+
+interface RunHistoryListViewProps {
+  onSelect: (runId: string) => void;
+}
+
+export function RunHistoryListView({ onSelect }: RunHistoryListViewProps) {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    ipcClient.history
+      .listRuns(searchQuery)
+      .then((result) => {
+        if (!cancelled) setRuns(result);
+      })
+      .catch((e) => toast.error(`Failed to load run history: ${formatErrorMessage(e)}`))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery]);
+
+  return (
+    <div className="flex flex-col gap-4 h-full overflow-hidden">
+      <SearchBar value={searchQuery} onChange={setSearchQuery} placeholder="Search runs..." />
+      <Separator className="bg-white/10 shrink-0" />
+      <ScrollArea className="h-[50vh]">
+        <div className="flex flex-col space-y-3 pr-4">
+          {!loading && runs.length === 0 ? (
+            <p className="text-white/50 text-center py-8">
+              {searchQuery ? "No runs found matching your search" : "No runs yet"}
+            </p>
+          ) : (
+            runs.map((run) => (
+              <button
+                key={run.id}
+                type="button"
+                onClick={() => onSelect(run.id)}
+                className="flex items-center justify-between gap-3 p-3 text-left bg-black/30 border border-white/20 rounded-md hover:bg-white/5 transition-colors cursor-pointer"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-white text-sm font-medium truncate">{run.title}</p>
+                  <p className="text-white/60 text-xs">
+                    {new Date(run.createdAt).toLocaleString()}
+                  </p>
+                  {run.videoUrl && <p className="text-white/40 text-xs truncate">{run.videoUrl}</p>}
+                </div>
+                <RunStatusBadge status={run.status} />
+              </button>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
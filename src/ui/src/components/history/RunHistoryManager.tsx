@@ -0,0 +1,100 @@
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import { ipcClient } from "../../services/ipc-client";
+import type { VideoJob } from "../../types";
+import { formatErrorMessage } from "../../utils";
+import { DeleteConfirmDialog } from "../dialogs/DeleteConfirmDialog";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "../ui/dialog";
+import { RunDetailView } from "./RunDetailView";
+import { RunHistoryListView } from "./RunHistoryListView";
+
+export function RunHistoryManager() {
+  const [open, setOpen] = useState(false);
+  const [selectedRun, setSelectedRun] = useState<VideoJob | null>(null);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+
+  const handleOpenChange = useCallback((isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setSelectedRun(null);
+    }
+  }, []);
+
+  const handleSelect = useCallback(async (runId: string) => {
+    try {
+      const run = await ipcClient.history.getRun(runId);
+      if (!run) {
+        toast.error("This run no longer exists");
+        return;
+      }
+      setSelectedRun(run);
+    } catch (e) {
+      toast.error(`Failed to load run: ${formatErrorMessage(e)}`);
+    }
+  }, []);
+
+  const confirmDelete = useCallback(async () => {
+    if (!selectedRun) return;
+
+    try {
+      await ipcClient.history.deleteRun(selectedRun.id);
+      toast.success("Run deleted");
+      setSelectedRun(null);
+    } catch (e) {
+      toast.error(`Failed to delete run: ${formatErrorMessage(e)}`);
+    }
+    setDeleteDialogOpen(false);
+  }, [selectedRun]);
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogTrigger asChild>
+          <Button variant="secondary">History</Button>
+        </DialogTrigger>
+        <DialogContent
+          showCloseButton
+          className="flex flex-col max-w-4xl max-h-[90vh] bg-neutral-900 text-neutral-100 border-neutral-800"
+        >
+          <DialogHeader className="shrink-0">
+            <DialogTitle className="text-white text-xl">
+              {selectedRun ? "Run Details" : "Run History"}
+            </DialogTitle>
+            <DialogDescription className="text-white/80 text-sm">
+              {selectedRun
+                ? "Everything recorded for this run, including the full task execution timeline"
+                : "Browse and search your previous recordings and their results"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex-1 min-h-0">
+            {selectedRun ? (
+              <RunDetailView
+                run={selectedRun}
+                onBack={() => setSelectedRun(null)}
+                onDelete={() => setDeleteDialogOpen(true)}
+              />
+            ) : (
+              <RunHistoryListView onSelect={handleSelect} />
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        onConfirm={confirmDelete}
+        deleteTitle="Delete Run"
+        deleteConfirmMessage="Are you sure you want to delete this run from your history?"
+      />
+    </>
+  );
+}
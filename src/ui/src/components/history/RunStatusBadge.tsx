@@ -0,0 +1,28 @@
+import type { BatchItemStatus, VideoJobStatus } from "../../types";
+import { Badge } from "../ui/badge";
+
+type RunStatus = VideoJobStatus | BatchItemStatus;
+
+const STATUS_STYLES: Record<RunStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-white/5 text-white/50 border-white/10" },
+  running: { label: "Running", className: "bg-blue-500/20 text-blue-400 border-blue-500/30" },
+  interrupted: {
+    label: "Interrupted",
+    className: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  },
+  failed: { label: "Failed", className: "bg-red-500/20 text-red-400 border-red-500/30" },
+  cancelled: { label: "Cancelled", className: "bg-white/10 text-white/60 border-white/20" },
+  completed: {
+    label: "Completed",
+    className: "bg-green-500/20 text-green-400 border-green-500/30",
+  },
+};
+
+export function RunStatusBadge({ status }: { status: RunStatus }) {
+  const { label, className } = STATUS_STYLES[status];
+  return (
+    <Badge variant="outline" className={className}>
+      {label}
+    </Badge>
+  );
+}
@@ -4,6 +4,7 @@ import { useForm } from "react-hook-form";
 import { toast } from "sonner";
 import * as z from "zod";
 import { formatErrorMessage } from "@/utils";
+import { useSettingsDialog } from "../../contexts/SettingsDialogContext";
 import { ipcClient } from "../../services/ipc-client";
 import type { HealthStatusInfo, LLMConfig } from "../../types";
 import { HealthStatus } from "../health-status/health-status";
@@ -17,10 +18,32 @@ import {
 } from "../ui/dialog";
 import { type LLMProvider, LLMProviderForm } from "./LLMProviderForm";
 
+const modelsSchema = z
+  .object({
+    transcription: z.string().trim().optional(),
+    summary: z.string().trim().optional(),
+    taskExecution: z.string().trim().optional(),
+  })
+  .optional();
+
+const transcriptionSchema = z
+  .discriminatedUnion("provider", [
+    z.object({ provider: z.literal("llm") }),
+    z.object({
+      provider: z.literal("whisper-cpp"),
+      modelPath: z.string().trim().min(1, "Model file is required"),
+      binaryPath: z.string().trim().min(1, "whisper-cli path is required"),
+      language: z.string().trim().optional(),
+    }),
+  ])
+  .optional();
+
 const schema = z.discriminatedUnion("provider", [
   z.object({
     provider: z.literal("openai"),
     apiKey: z.string().min(1, "API key is required"),
+    models: modelsSchema,
+    transcription: transcriptionSchema,
   }),
   z.object({
     provider: z.literal("azure"),
@@ -28,13 +51,30 @@ const schema = z.discriminatedUnion("provider", [
     endpoint: z.string().min(1, "Endpoint is required"),
     version: z.string().min(1, "Version is required"),
     deployment: z.string().min(1, "Deployment is required"),
+    models: modelsSchema,
+    transcription: transcriptionSchema,
+  }),
+  z.object({
+    provider: z.literal("openai-compatible"),
+    baseUrl: z.string().url("Base URL must be a URL"),
+    apiKey: z.string().optional(),
+    model: z.string().min(1, "Model is required"),
+    models: modelsSchema,
+    transcription: transcriptionSchema,
   }),
 ]);
 
+const PROVIDER_NAMES: Record<LLMProvider, string> = {
+  openai: "OpenAI",
+  azure: "Azure OpenAI",
+  "openai-compatible": "OpenAI-compatible",
+};
+
 export type FormValues = z.infer<typeof schema>;
 
 export function LLMKeyManager() {
-  const [dialogOpen, setDialogOpen] = useState(false);
+  const { openDialog, setOpenDialog } = useSettingsDialog();
+  const dialogOpen = openDialog === "llm";
   const [hasConfig, setHasConfig] = useState(false);
   const [healthStatus, setHealthStatus] = useState<HealthStatusInfo | null>(
     null
@@ -83,6 +123,10 @@ export function LLMKeyManager() {
     void refreshStatus();
   }, [refreshStatus]);
 
+  useEffect(() => {
+    if (dialogOpen) void refreshStatus();
+  }, [dialogOpen, refreshStatus]);
+
   useEffect(() => {
     if (dialogOpen && hasConfig) {
       void checkHealth();
@@ -94,11 +138,7 @@ export function LLMKeyManager() {
       setIsLoading(true);
       try {
         await ipcClient.llm.setConfig(values as LLMConfig);
-        toast.success(
-          values.provider === "openai"
-            ? "OpenAI configuration saved"
-            : "Azure OpenAI configuration saved"
-        );
+        toast.success(`${PROVIDER_NAMES[values.provider]} configuration saved`);
         await refreshStatus();
         await checkHealth();
       } catch (e) {
@@ -128,19 +168,22 @@ export function LLMKeyManager() {
     form.reset({
       provider: value,
       apiKey: "",
+      models: {},
+      // where audio is transcribed doesn't depend on the LLM provider
+      transcription: form.getValues("transcription"),
       ...(value === "azure"
         ? { endpoint: "", version: "", deployment: "" }
         : {}),
+      ...(value === "openai-compatible"
+        ? { baseUrl: "", model: "" }
+        : {}),
     } as FormValues);
   };
 
   return (
     <Dialog
       open={dialogOpen}
-      onOpenChange={(open) => {
-        setDialogOpen(open);
-        if (open) void refreshStatus();
-      }}
+      onOpenChange={(open) => setOpenDialog(open ? "llm" : null)}
     >
       <DialogTrigger asChild>
         <Button variant="secondary">LLM Settings</Button>
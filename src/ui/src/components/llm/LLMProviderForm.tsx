@@ -1,5 +1,6 @@
 import { Loader2 } from "lucide-react";
 import type { Control, UseFormReturn } from "react-hook-form";
+import { LLM_STAGE_LABELS, type LLMStage } from "../../types";
 import { Button } from "../ui/button";
 import {
   Form,
@@ -20,7 +21,7 @@ import {
 } from "../ui/select";
 import type { FormValues } from "./LLMKeyManager";
 
-export type LLMProvider = "openai" | "azure";
+export type LLMProvider = "openai" | "azure" | "openai-compatible";
 
 type LLMProviderSelectProps = {
   control: Control<FormValues>;
@@ -55,6 +56,9 @@ function LLMProviderSelect({
               <SelectItem value="azure" disabled={true}>
                 Azure OpenAI
               </SelectItem>
+              <SelectItem value="openai-compatible">
+                OpenAI-compatible (Ollama, LM Studio, vLLM)
+              </SelectItem>
             </SelectContent>
           </Select>
           <FormMessage />
@@ -72,6 +76,10 @@ type AzureOpenAIProviderFormProps = {
   control: Control<FormValues>;
 };
 
+type OpenAICompatibleProviderFormProps = {
+  control: Control<FormValues>;
+};
+
 function OpenAIProviderForm({ control }: OpenAIProviderFormProps) {
   return (
     <FormField
@@ -179,13 +187,275 @@ function AzureOpenAIProviderForm({ control }: AzureOpenAIProviderFormProps) {
   );
 }
 
+function OpenAICompatibleProviderForm({
+  control,
+}: OpenAICompatibleProviderFormProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      <FormField
+        control={control}
+        name="baseUrl"
+        render={({ field }) => (
+          <FormItem className="flex flex-col gap-2">
+            <FormLabel className="text-white/90 text-sm">Base URL</FormLabel>
+            <FormControl>
+              <Input
+                {...field}
+                placeholder="e.g. http://localhost:11434/v1"
+                className="bg-black/40 border border-white/20 text-white"
+                type="text"
+              />
+            </FormControl>
+            <FormDescription className="text-white/50 text-xs">
+              The server's OpenAI-compatible API, usually ending in /v1.
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name="apiKey"
+        render={({ field }) => (
+          <FormItem className="flex flex-col gap-2">
+            <FormLabel className="text-white/90 text-sm">
+              API Key (optional)
+            </FormLabel>
+            <FormControl>
+              <Input
+                {...field}
+                value={field.value ?? ""}
+                placeholder="Only if the server requires one"
+                className="bg-black/40 border border-white/20 text-white"
+                type="password"
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name="model"
+        render={({ field }) => (
+          <FormItem className="flex flex-col gap-2">
+            <FormLabel className="text-white/90 text-sm">Model</FormLabel>
+            <FormControl>
+              <Input
+                {...field}
+                placeholder="e.g. llama3.1:8b"
+                className="bg-black/40 border border-white/20 text-white"
+                type="text"
+              />
+            </FormControl>
+            <FormDescription className="text-white/50 text-xs">
+              Executing tasks needs a model that supports tool calling.
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
+// What each stage uses when its model is left empty
+const DEFAULT_STAGE_MODELS: Record<LLMProvider, Record<LLMStage, string>> = {
+  openai: {
+    transcription: "whisper-1",
+    summary: "gpt-4o",
+    taskExecution: "gpt-4o",
+  },
+  azure: {
+    transcription: "the deployment above",
+    summary: "the deployment above",
+    taskExecution: "the deployment above",
+  },
+  "openai-compatible": {
+    transcription: "none, the server can't transcribe",
+    summary: "the model above",
+    taskExecution: "the model above",
+  },
+};
+
+type StageModelsFormProps = {
+  control: Control<FormValues>;
+  provider: LLMProvider;
+  stages: LLMStage[];
+};
+
+function StageModelsForm({ control, provider, stages }: StageModelsFormProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      {stages.map((stage) => (
+        <FormField
+          key={stage}
+          control={control}
+          name={`models.${stage}`}
+          render={({ field }) => (
+            <FormItem className="flex flex-col gap-2">
+              <FormLabel className="text-white/90 text-sm">
+                {LLM_STAGE_LABELS[stage]}{" "}
+                {provider === "azure" ? "Deployment" : "Model"} (optional)
+              </FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  value={field.value ?? ""}
+                  placeholder={`Default: ${DEFAULT_STAGE_MODELS[provider][stage]}`}
+                  className="bg-black/40 border border-white/20 text-white"
+                  type="text"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ))}
+      <p className="text-white/50 text-xs">
+        A cheaper model can write the summary while a stronger one executes
+        the task. The health check tries each of them.
+      </p>
+    </div>
+  );
+}
+
+type TranscriptionFormProps = {
+  form: UseFormReturn<FormValues>;
+};
+
+function TranscriptionForm({ form }: TranscriptionFormProps) {
+  const transcriptionProvider = form.watch("transcription")?.provider ?? "llm";
+
+  return (
+    <div className="flex flex-col gap-3">
+      <FormField
+        control={form.control}
+        name="transcription.provider"
+        render={() => (
+          <FormItem className="flex flex-col gap-2">
+            <FormLabel className="text-white/90 text-sm">Transcription</FormLabel>
+            <Select
+              value={transcriptionProvider}
+              onValueChange={(value) =>
+                form.setValue(
+                  "transcription",
+                  value === "whisper-cpp"
+                    ? { provider: "whisper-cpp", modelPath: "", binaryPath: "" }
+                    : { provider: "llm" },
+                  { shouldDirty: true }
+                )
+              }
+            >
+              <FormControl>
+                <SelectTrigger className="bg-black/40 cursor-pointer border border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="llm">With the LLM provider</SelectItem>
+                <SelectItem value="whisper-cpp">
+                  Offline with whisper.cpp
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      {transcriptionProvider === "whisper-cpp" && (
+        <>
+          <FormField
+            control={form.control}
+            name="transcription.modelPath"
+            render={({ field }) => (
+              <FormItem className="flex flex-col gap-2">
+                <FormLabel className="text-white/90 text-sm">
+                  Model File
+                </FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    value={field.value ?? ""}
+                    placeholder="e.g. /models/ggml-base.en.bin"
+                    className="bg-black/40 border border-white/20 text-white"
+                    type="text"
+                  />
+                </FormControl>
+                <FormDescription className="text-white/50 text-xs">
+                  A ggml model downloaded from the whisper.cpp repository.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="transcription.binaryPath"
+            render={({ field }) => (
+              <FormItem className="flex flex-col gap-2">
+                <FormLabel className="text-white/90 text-sm">
+                  whisper-cli Path
+                </FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    value={field.value ?? ""}
+                    placeholder="e.g. /usr/local/bin/whisper-cli"
+                    className="bg-black/40 border border-white/20 text-white"
+                    type="text"
+                  />
+                </FormControl>
+                <FormDescription className="text-white/50 text-xs">
+                  The whisper-cli binary of a whisper.cpp build or release.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="transcription.language"
+            render={({ field }) => (
+              <FormItem className="flex flex-col gap-2">
+                <FormLabel className="text-white/90 text-sm">
+                  Language (optional)
+                </FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    value={field.value ?? ""}
+                    placeholder="Default: detected, or e.g. en"
+                    className="bg-black/40 border border-white/20 text-white"
+                    type="text"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+const PROVIDER_FORMS: Record<
+  LLMProvider,
+  (props: { control: Control<FormValues> }) => React.JSX.Element
+> = {
+  openai: OpenAIProviderForm,
+  azure: AzureOpenAIProviderForm,
+  "openai-compatible": OpenAICompatibleProviderForm,
+};
+
 type LLMProviderFormProps = {
   form: UseFormReturn<FormValues>;
   onSubmit: (values: FormValues) => Promise<void>;
   onClear: () => Promise<void>;
   isLoading: boolean;
   hasConfig: boolean;
-  handleProviderChange: (value: "openai" | "azure") => void;
+  handleProviderChange: (value: LLMProvider) => void;
 };
 
 export function LLMProviderForm({
@@ -197,6 +467,7 @@ export function LLMProviderForm({
   handleProviderChange,
 }: LLMProviderFormProps) {
   const provider = form.watch("provider");
+  const ProviderForm = PROVIDER_FORMS[provider];
 
   return (
     <Form {...form}>
@@ -208,11 +479,18 @@ export function LLMProviderForm({
           control={form.control}
           handleProviderChange={handleProviderChange}
         />
-        {provider === "openai" ? (
-          <OpenAIProviderForm control={form.control} />
-        ) : (
-          <AzureOpenAIProviderForm control={form.control} />
-        )}
+        <ProviderForm control={form.control} />
+        <StageModelsForm
+          control={form.control}
+          provider={provider}
+          stages={(Object.keys(LLM_STAGE_LABELS) as LLMStage[]).filter(
+            // whisper.cpp takes a model file instead
+            (stage) =>
+              stage !== "transcription" ||
+              form.watch("transcription")?.provider !== "whisper-cpp"
+          )}
+        />
+        <TranscriptionForm form={form} />
         <div className="flex justify-start gap-2">
           <Button
             type="button"
@@ -37,6 +37,8 @@ export type MCPServerConfig = {
   headers?: Record<string, string>;
   version?: string;
   timeoutMs?: number;
+  requireToolApproval?: boolean;
+  autoApproveTools?: string[];
 };
 
 const mcpServerSchema = z.object({
@@ -53,6 +55,8 @@ const mcpServerSchema = z.object({
   headers: z.string().optional(),
   version: z.string().optional(),
   timeoutMs: z.number().positive().optional().or(z.literal("")),
+  toolApproval: z.enum(["auto", "ask"]),
+  autoApproveTools: z.string().optional(),
 });
 
 type MCPServerFormData = z.infer<typeof mcpServerSchema>;
@@ -149,6 +153,55 @@ export function McpServerForm({ form }: McpServerFormProps) {
         )}
       />
 
+      <FormField
+        control={form.control}
+        name="toolApproval"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="text-white/90">Tool Approval</FormLabel>
+            <FormControl>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <SelectTrigger className="w-full bg-black/40 border border-white/20 rounded-md px-3 py-2 text-white focus:border-white/40 focus:outline-none">
+                  <SelectValue placeholder="Tool approval" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Run tools automatically</SelectItem>
+                  <SelectItem value="ask">Ask before running tools</SelectItem>
+                </SelectContent>
+              </Select>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {form.watch("toolApproval") === "ask" && (
+        <FormField
+          control={form.control}
+          name="autoApproveTools"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-white/90">
+                Always Allowed Tools
+              </FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  type="text"
+                  placeholder="e.g., search_*, get_*, list_*"
+                  className="w-full bg-black/40 border border-white/20 rounded-md px-3 py-2 text-white font-mono text-sm focus:border-white/40 focus:outline-none"
+                />
+              </FormControl>
+              <FormDescription className="text-white/60 text-xs">
+                Comma-separated tool names that run without asking. Use * as a
+                wildcard, e.g. for read-only search tools
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
       <Accordion type="single" collapsible>
         <AccordionItem value="advanced">
           <AccordionTrigger className="text-base font-medium text-white/90">
@@ -254,6 +307,8 @@ export function McpServerFormWrapper({
         : "{}",
       version: initialData?.version || "",
       timeoutMs: initialData?.timeoutMs || undefined,
+      toolApproval: initialData?.requireToolApproval ? "ask" : "auto",
+      autoApproveTools: initialData?.autoApproveTools?.join(", ") || "",
     },
   });
 
@@ -278,6 +333,14 @@ export function McpServerFormWrapper({
       version: data.version?.trim() || undefined,
       timeoutMs:
         typeof data.timeoutMs === "number" ? data.timeoutMs : undefined,
+      requireToolApproval: data.toolApproval === "ask" || undefined,
+      autoApproveTools:
+        data.toolApproval === "ask"
+          ? data.autoApproveTools
+              ?.split(",")
+              .map((pattern) => pattern.trim())
+              .filter(Boolean)
+          : undefined,
     };
 
     await onSubmit(config);
@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import { toast } from "sonner";
 import type { HealthStatusInfo } from "@/types";
 import { formatErrorMessage } from "@/utils";
+import { useSettingsDialog } from "../../contexts/SettingsDialogContext";
 import { ipcClient } from "../../services/ipc-client";
 import { HealthStatus } from "../health-status/health-status";
 import {
@@ -41,7 +42,7 @@ export function McpServerManager() {
   const [editingServer, setEditingServer] = useState<MCPServerConfig | null>(
     null
   );
-  const [dialogOpen, setDialogOpen] = useState(false);
+  const { openDialog, setOpenDialog } = useSettingsDialog();
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [serverToDelete, setServerToDelete] = useState<string | null>(null);
   const [healthStatus, setHealthStatus] = useState<ServerHealthStatus<string>>(
@@ -162,7 +163,10 @@ export function McpServerManager() {
   }, [servers]);
 
   return (
-    <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+    <Dialog
+      open={openDialog === "mcp"}
+      onOpenChange={(open) => setOpenDialog(open ? "mcp" : null)}
+    >
       <DialogTrigger asChild>
         <Button variant="secondary">MCP Settings</Button>
       </DialogTrigger>
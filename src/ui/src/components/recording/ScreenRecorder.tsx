@@ -1,39 +1,90 @@
-import { useCallback, useEffect, useState } from "react";
+import { FolderOpen, Upload } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 import { useYouTubeAuth } from "../../contexts/YouTubeAuthContext";
 import { useScreenRecording } from "../../hooks/useScreenRecording";
-import { AuthStatus, UploadStatus } from "../../types";
+import { useVideoFileDrop } from "../../hooks/useVideoFileDrop";
+import { AuthStatus, RUN_MODES, type RunMode, UploadStatus } from "../../types";
+import { formatErrorMessage } from "../../utils";
+import { RunHistoryManager } from "../history/RunHistoryManager";
 import { LLMKeyManager } from "../llm/LLMKeyManager";
 import { McpServerManager } from "../mcp/McpServerManager";
+import { AppSettingsManager } from "../settings/AppSettingsManager";
 import { CustomPromptManager } from "../settings/CustomPromptManager";
 import { Button } from "../ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
 import { SourcePickerDialog } from "./SourcePickerDialog";
 import { VideoPreviewModal } from "./VideoPreviewModal";
 
+// Runs follow the active custom prompt's mode unless one is picked here
+const PROMPT_RUN_MODE = "prompt";
+
 interface RecordedVideo {
   blob: Blob;
   filePath: string;
+  markers: number[];
 }
 
 export function ScreenRecorder() {
   const { authState, setUploadResult, setUploadStatus } = useYouTubeAuth();
-  const { isRecording, isProcessing, start, stop } = useScreenRecording();
+  const { isRecording, isProcessing, start, stop, setPaused, cancel } = useScreenRecording();
   const [isTranscribing, _] = useState(false);
 
   const [pickerOpen, setPickerOpen] = useState(false);
   const [previewOpen, setPreviewOpen] = useState(false);
   const [recordedVideo, setRecordedVideo] = useState<RecordedVideo | null>(null);
+  const [runMode, setRunMode] = useState<RunMode | typeof PROMPT_RUN_MODE>(PROMPT_RUN_MODE);
+  // Recordings started from the tray or a hotkey are processed without the preview
+  const startedInBackgroundRef = useRef(false);
 
   const isAuthenticated = authState.status === AuthStatus.AUTHENTICATED;
 
+  const resetPreview = () => {
+    setPreviewOpen(false);
+    setRecordedVideo(null);
+  };
+
+  const handleRetry = () => {
+    resetPreview();
+    setPickerOpen(true);
+  };
+
+  const runPipeline = useCallback(
+    async (process: () => Promise<void>) => {
+      try {
+        setUploadStatus(UploadStatus.UPLOADING);
+        setUploadResult(null);
+
+        await process();
+      } catch (error) {
+        setUploadStatus(UploadStatus.ERROR);
+        const message = error instanceof Error ? error.message : String(error);
+        setUploadResult({ success: false, error: message });
+        toast.error(`Processing failed: ${message}`);
+      }
+    },
+    [setUploadResult, setUploadStatus],
+  );
+
+  const selectedMode = runMode === PROMPT_RUN_MODE ? undefined : runMode;
+
   const handleStopRecording = useCallback(async () => {
     const result = await stop();
-    if (result) {
-      setRecordedVideo(result);
-      setPreviewOpen(true);
-      await window.electronAPI.screenRecording.restoreMainWindow();
+    const startedInBackground = startedInBackgroundRef.current;
+    startedInBackgroundRef.current = false;
+    if (!result) return;
+
+    if (startedInBackground) {
+      const { filePath, markers } = result;
+      await runPipeline(() =>
+        window.electronAPI.pipelines.processVideo(filePath, { mode: selectedMode, markers }),
+      );
+      return;
     }
-  }, [stop]);
+    setRecordedVideo(result);
+    setPreviewOpen(true);
+    await window.electronAPI.screenRecording.restoreMainWindow();
+  }, [stop, runPipeline, selectedMode]);
 
   const toggleRecording = () => {
     isRecording ? handleStopRecording() : setPickerOpen(true);
@@ -44,40 +95,87 @@ export function ScreenRecorder() {
     return cleanup;
   }, [handleStopRecording]);
 
+  useEffect(() => {
+    return window.electronAPI.screenRecording.onStartRequest(async (sourceId) => {
+      if (isRecording || isProcessing) return;
+      setPickerOpen(false);
+      startedInBackgroundRef.current = true;
+      await start(sourceId ?? undefined).catch(() => {
+        startedInBackgroundRef.current = false;
+      });
+    });
+  }, [isRecording, isProcessing, start]);
+
+  useEffect(() => window.electronAPI.screenRecording.onPauseRequest(setPaused), [setPaused]);
+
+  useEffect(() => {
+    return window.electronAPI.screenRecording.onCancelRequest(() => {
+      startedInBackgroundRef.current = false;
+      cancel();
+    });
+  }, [cancel]);
+
   const handleStartRecording = async (sourceId: string) => {
     setPickerOpen(false);
     await start(sourceId);
   };
 
-  const resetPreview = () => {
-    setPreviewOpen(false);
-    setRecordedVideo(null);
-  };
+  const handleContinue = async () => {
+    if (!recordedVideo) return;
 
-  const handleRetry = () => {
+    const { filePath, markers } = recordedVideo;
     resetPreview();
-    setPickerOpen(true);
+
+    await runPipeline(() =>
+      window.electronAPI.pipelines.processVideo(filePath, { mode: selectedMode, markers }),
+    );
   };
 
-  const handleContinue = async () => {
-    if (!recordedVideo) return;
+  const handleImport = useCallback(
+    (filePath: string) =>
+      runPipeline(() => window.electronAPI.pipelines.importVideo(filePath, { mode: selectedMode })),
+    [runPipeline, selectedMode],
+  );
 
-    const { filePath } = recordedVideo;
-    resetPreview();
+  // Several videos go through the batch queue, which reports on them in the batch panel
+  const handleBatch = useCallback(
+    async (paths: string[]) => {
+      try {
+        await window.electronAPI.pipelines.processBatch(paths, { mode: selectedMode });
+      } catch (error) {
+        toast.error(`Batch processing failed: ${formatErrorMessage(error)}`);
+      }
+    },
+    [selectedMode],
+  );
 
-    try {
-      setUploadStatus(UploadStatus.UPLOADING);
-      setUploadResult(null);
+  const handleImportFiles = useCallback(
+    (filePaths: string[]) =>
+      filePaths.length === 1 ? handleImport(filePaths[0]) : handleBatch(filePaths),
+    [handleImport, handleBatch],
+  );
+
+  const handleUnsupportedFile = useCallback((fileName: string) => {
+    toast.error(`"${fileName}" is not supported. Import an mp4, mov, mkv or webm video.`);
+  }, []);
 
-      await window.electronAPI.pipelines.processVideo(filePath);
-    } catch (error) {
-      setUploadStatus(UploadStatus.ERROR);
-      const message = error instanceof Error ? error.message : String(error);
-      setUploadResult({ success: false, error: message });
-      toast.error(`Processing failed: ${message}`);
+  const handleSelectFiles = async () => {
+    const filePaths = await window.electronAPI.video.selectVideoFiles();
+    if (filePaths.length) {
+      await handleImportFiles(filePaths);
     }
   };
 
+  const handleSelectFolder = async () => {
+    const directory = await window.electronAPI.video.selectOutputDirectory();
+    if (directory) {
+      await handleBatch([directory]);
+    }
+  };
+
+  const canImport = isAuthenticated && !isRecording && !isProcessing;
+  const { isDragging } = useVideoFileDrop(handleImportFiles, handleUnsupportedFile, canImport);
+
   return (
     <>
       <section className="flex flex-col gap-4 items-center">
@@ -93,15 +191,46 @@ export function ScreenRecorder() {
                 ? "Transcribing..."
                 : "Start Recording"}
           </Button>
+          <Button variant="secondary" onClick={handleSelectFiles} disabled={!canImport}>
+            <Upload className="w-4 h-4" />
+            Import Videos
+          </Button>
+          <Button variant="secondary" onClick={handleSelectFolder} disabled={!canImport}>
+            <FolderOpen className="w-4 h-4" />
+            Import Folder
+          </Button>
+          <Select
+            value={runMode}
+            onValueChange={(value) => setRunMode(value as RunMode | typeof PROMPT_RUN_MODE)}
+          >
+            <SelectTrigger className="w-[190px] bg-black/40 border border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={PROMPT_RUN_MODE}>Use prompt's run mode</SelectItem>
+              {(Object.keys(RUN_MODES) as RunMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {RUN_MODES[mode].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <McpServerManager />
           <CustomPromptManager />
           <LLMKeyManager />
+          <RunHistoryManager />
+          <AppSettingsManager />
         </div>
         {!isAuthenticated && (
           <p className="text-sm text-white/60 text-center">
             Please connect a video platform below to start recording
           </p>
         )}
+        {isAuthenticated && (
+          <p className="text-sm text-white/60 text-center">
+            Or drop an mp4, mov, mkv or webm video anywhere to process it
+          </p>
+        )}
         <SourcePickerDialog
           open={pickerOpen}
           onOpenChange={setPickerOpen}
@@ -109,6 +238,12 @@ export function ScreenRecorder() {
         />
       </section>
 
+      {isDragging && (
+        <div className="fixed inset-4 z-50 flex items-center justify-center rounded-xl border-2 border-dashed border-white/40 bg-black/70 pointer-events-none">
+          <p className="text-white text-xl font-medium">Drop video to process it</p>
+        </div>
+      )}
+
       {recordedVideo && (
         <VideoPreviewModal
           open={previewOpen}
@@ -0,0 +1,555 @@
+import { Copy, FolderOpen, RefreshCw } from "lucide-react";
+import type React from "react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ipcClient } from "../../services/ipc-client";
+import type {
+  AppSettings,
+  ArtifactRetention,
+  ArtifactUsage,
+  HotkeyAction,
+  HotkeyStatus,
+} from "../../types";
+import { formatErrorMessage } from "../../utils";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { Separator } from "../ui/separator";
+import { HotkeyInput } from "./HotkeyInput";
+import { UsageSettings } from "./UsageSettings";
+import { WebhookSettings } from "./WebhookSettings";
+
+const BATCH_CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const LLM_MAX_ATTEMPTS_OPTIONS = [1, 2, 4, 6, 8];
+
+const LLM_TIMEOUT_SECONDS_OPTIONS = [60, 120, 300, 600];
+
+const ARTIFACT_RETENTION_OPTIONS: Record<ArtifactRetention, string> = {
+  delete_on_success: "Delete when the run succeeds",
+  keep_days: "Keep for a number of days",
+  keep_forever: "Keep forever",
+};
+
+const ARTIFACT_RETENTION_DAYS_OPTIONS = [1, 3, 7, 14, 30];
+
+const HOTKEY_ACTIONS: Record<HotkeyAction, { label: string; description: string }> = {
+  startRecording: {
+    label: "Start recording",
+    description: "Record the last used screen or window. The video is processed without a preview",
+  },
+  stopRecording: { label: "Stop recording", description: "Stop and save the recording" },
+  pauseRecording: {
+    label: "Pause recording",
+    description: "Pause the recording, or resume it when it is paused",
+  },
+  addMarker: {
+    label: "Add marker",
+    description: "Mark the current moment as important for the summary",
+  },
+  cancelRecording: {
+    label: "Cancel recording",
+    description: "Stop the recording and throw it away",
+  },
+};
+
+const HOTKEY_STATUS_MESSAGES: Partial<Record<HotkeyStatus, string>> = {
+  in_use: "Another app already uses this shortcut",
+  invalid: "This shortcut can't be used",
+};
+
+const MIN_API_PORT = 1024;
+const MAX_API_PORT = 65535;
+
+const formatUsage = ({ totalBytes, fileCount, runCount }: ArtifactUsage) =>
+  `${(totalBytes / 1024 / 1024).toFixed(1)} MB in ${fileCount} ${fileCount === 1 ? "file" : "files"} of ${runCount} ${runCount === 1 ? "run" : "runs"}`;
+
+interface SettingRowProps {
+  label: string;
+  description: string;
+  children: React.ReactNode;
+}
+
+function SettingRow({ label, description, children }: SettingRowProps) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="flex-1 min-w-0">
+        <p className="text-white/90 text-sm font-medium">{label}</p>
+        <p className="text-white/60 text-xs break-words">{description}</p>
+      </div>
+      <div className="shrink-0 w-[200px]">{children}</div>
+    </div>
+  );
+}
+
+interface ToggleSelectProps {
+  value: boolean;
+  onChange: (value: boolean) => void;
+  onLabel: string;
+  offLabel: string;
+}
+
+function ToggleSelect({ value, onChange, onLabel, offLabel }: ToggleSelectProps) {
+  return (
+    <Select value={value ? "on" : "off"} onValueChange={(v) => onChange(v === "on")}>
+      <SelectTrigger className="w-full bg-black/40 border border-white/20 text-white">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="off">{offLabel}</SelectItem>
+        <SelectItem value="on">{onLabel}</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function AppSettingsManager() {
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [artifactUsage, setArtifactUsage] = useState<ArtifactUsage | null>(null);
+  const [fileNameTemplate, setFileNameTemplate] = useState("");
+  const [apiPort, setApiPort] = useState("");
+  const [hotkeyStatus, setHotkeyStatus] = useState<Partial<Record<HotkeyAction, HotkeyStatus>>>({});
+
+  const refreshHotkeyStatus = useCallback(() => {
+    ipcClient.settings
+      .getHotkeyStatus()
+      .then(setHotkeyStatus)
+      .catch((e) => console.error(formatErrorMessage(e)));
+  }, []);
+
+  const refreshArtifactUsage = useCallback(() => {
+    ipcClient.settings
+      .getArtifactUsage()
+      .then(setArtifactUsage)
+      .catch((e) => console.error(formatErrorMessage(e)));
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    ipcClient.settings
+      .getAppSettings()
+      .then((loaded) => {
+        setSettings(loaded);
+        setFileNameTemplate(loaded.recordingFileNameTemplate);
+        setApiPort(String(loaded.automationApiPort));
+      })
+      .catch((e) => toast.error(`Failed to load settings: ${formatErrorMessage(e)}`));
+    refreshArtifactUsage();
+    refreshHotkeyStatus();
+  }, [open, refreshArtifactUsage, refreshHotkeyStatus]);
+
+  const updateSettings = useCallback(
+    async (updates: Partial<AppSettings>) => {
+      try {
+        setSettings(await ipcClient.settings.updateAppSettings(updates));
+        // a shorter retention removes kept files straight away
+        refreshArtifactUsage();
+      } catch (e) {
+        toast.error(`Failed to save settings: ${formatErrorMessage(e)}`);
+      }
+    },
+    [refreshArtifactUsage],
+  );
+
+  const chooseRecordingsFolder = async () => {
+    try {
+      const folder = await ipcClient.video.selectOutputDirectory();
+      if (folder) await updateSettings({ recordingsFolder: folder });
+    } catch (e) {
+      toast.error(`Failed to choose folder: ${formatErrorMessage(e)}`);
+    }
+  };
+
+  const saveFileNameTemplate = () => {
+    const template = fileNameTemplate.trim();
+    if (!settings || template === settings.recordingFileNameTemplate) return;
+    if (!template) {
+      setFileNameTemplate(settings.recordingFileNameTemplate);
+      return;
+    }
+    void updateSettings({ recordingFileNameTemplate: template });
+  };
+
+  const updateHotkey = async (action: HotkeyAction, accelerator: string | null) => {
+    if (!settings) return;
+    await updateSettings({ hotkeys: { ...settings.hotkeys, [action]: accelerator } });
+    refreshHotkeyStatus();
+  };
+
+  const saveApiPort = () => {
+    if (!settings) return;
+    const port = Number(apiPort);
+    if (port === settings.automationApiPort) return;
+    if (!Number.isInteger(port) || port < MIN_API_PORT || port > MAX_API_PORT) {
+      toast.error(`The port must be a number from ${MIN_API_PORT} to ${MAX_API_PORT}`);
+      setApiPort(String(settings.automationApiPort));
+      return;
+    }
+    void updateSettings({ automationApiPort: port });
+  };
+
+  const copyApiToken = async () => {
+    if (!settings?.automationApiToken) return;
+    try {
+      await navigator.clipboard.writeText(settings.automationApiToken);
+      toast.success("Token copied");
+    } catch (e) {
+      toast.error(`Failed to copy token: ${formatErrorMessage(e)}`);
+    }
+  };
+
+  const regenerateApiToken = async () => {
+    try {
+      setSettings(await ipcClient.settings.regenerateApiToken());
+      toast.success("Token regenerated. Tools using the old token need the new one");
+    } catch (e) {
+      toast.error(`Failed to regenerate token: ${formatErrorMessage(e)}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="secondary">Settings</Button>
+      </DialogTrigger>
+      <DialogContent
+        showCloseButton
+        className="flex flex-col max-w-2xl max-h-[90vh] bg-neutral-900 text-neutral-100 border-neutral-800"
+      >
+        <DialogHeader className="shrink-0">
+          <DialogTitle className="text-white text-xl">Settings</DialogTitle>
+          <DialogDescription className="text-white/80 text-sm">
+            Configure how recordings are processed
+          </DialogDescription>
+        </DialogHeader>
+        {settings && (
+          <div className="flex flex-col gap-4 overflow-y-auto">
+            <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wide">Review</h3>
+            <SettingRow
+              label="Review transcript"
+              description="Pause after transcription so you can fix misheard names before the transcript is analyzed"
+            >
+              <ToggleSelect
+                value={settings.reviewTranscript}
+                onChange={(reviewTranscript) => updateSettings({ reviewTranscript })}
+                onLabel="Review first"
+                offLabel="Continue automatically"
+              />
+            </SettingRow>
+            <Separator className="bg-white/10" />
+            <SettingRow
+              label="Review summary"
+              description="Pause after the transcript is analyzed so you can edit or regenerate the summary"
+            >
+              <ToggleSelect
+                value={settings.reviewSummary}
+                onChange={(reviewSummary) => updateSettings({ reviewSummary })}
+                onLabel="Review first"
+                offLabel="Continue automatically"
+              />
+            </SettingRow>
+            <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wide">Tray</h3>
+            <SettingRow
+              label="Start in tray"
+              description="Launch YakShaver with the main window hidden. Record and follow runs from the tray icon"
+            >
+              <ToggleSelect
+                value={settings.startMinimizedToTray}
+                onChange={(startMinimizedToTray) => updateSettings({ startMinimizedToTray })}
+                onLabel="Start in tray"
+                offLabel="Show window"
+              />
+            </SettingRow>
+            <Separator className="bg-white/10" />
+            <SettingRow
+              label="Closing the window"
+              description="Keep YakShaver running in the tray when the main window is closed. Quit it from the tray icon"
+            >
+              <ToggleSelect
+                value={settings.keepRunningInTray}
+                onChange={(keepRunningInTray) => updateSettings({ keepRunningInTray })}
+                onLabel="Keep running in tray"
+                offLabel="Close YakShaver"
+              />
+            </SettingRow>
+            <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wide">Hotkeys</h3>
+            {(Object.keys(HOTKEY_ACTIONS) as HotkeyAction[]).map((action) => {
+              const status = hotkeyStatus[action];
+              return (
+                <SettingRow
+                  key={action}
+                  label={HOTKEY_ACTIONS[action].label}
+                  description={
+                    (status && HOTKEY_STATUS_MESSAGES[status]) ?? HOTKEY_ACTIONS[action].description
+                  }
+                >
+                  <HotkeyInput
+                    value={settings.hotkeys[action]}
+                    onChange={(accelerator) => updateHotkey(action, accelerator)}
+                  />
+                </SettingRow>
+              );
+            })}
+            <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wide">Batch</h3>
+            <SettingRow
+              label="Concurrent videos"
+              description="How many videos of a batch are processed at the same time. Batch runs skip the review steps"
+            >
+              <Select
+                value={String(settings.batchConcurrency)}
+                onValueChange={(value) => updateSettings({ batchConcurrency: Number(value) })}
+              >
+                <SelectTrigger className="w-full bg-black/40 border border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BATCH_CONCURRENCY_OPTIONS.map((count) => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count === 1 ? "1 video" : `${count} videos`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </SettingRow>
+            <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wide">
+              LLM Requests
+            </h3>
+            <SettingRow
+              label="Attempts"
+              description="How often a request is sent before the run fails, when the LLM provider is rate limiting or has a server error. Retries wait as long as the provider asks"
+            >
+              <Select
+                value={String(settings.llmMaxAttempts)}
+                onValueChange={(value) => updateSettings({ llmMaxAttempts: Number(value) })}
+              >
+                <SelectTrigger className="w-full bg-black/40 border border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LLM_MAX_ATTEMPTS_OPTIONS.map((count) => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count === 1 ? "1 attempt, no retries" : `${count} attempts`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </SettingRow>
+            <Separator className="bg-white/10" />
+            <SettingRow
+              label="Timeout"
+              description="How long an attempt may wait for the LLM provider to respond before it is retried"
+            >
+              <Select
+                value={String(settings.llmRequestTimeoutSeconds)}
+                onValueChange={(value) =>
+                  updateSettings({ llmRequestTimeoutSeconds: Number(value) })
+                }
+              >
+                <SelectTrigger className="w-full bg-black/40 border border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LLM_TIMEOUT_SECONDS_OPTIONS.map((seconds) => (
+                    <SelectItem key={seconds} value={String(seconds)}>
+                      {`${seconds / 60} ${seconds === 60 ? "minute" : "minutes"}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </SettingRow>
+            <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wide">
+              Recordings
+            </h3>
+            <SettingRow
+              label="Save recordings to"
+              description={
+                settings.recordingsFolder
+                  ? `A copy of every recording is saved to ${settings.recordingsFolder} once its run has completed`
+                  : "Keep a copy of every recording in a folder once its run has completed. Runs that keep the video instead of uploading it save it to your Videos folder, under YakShaver"
+              }
+            >
+              <div className="flex gap-2">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  className="flex-1 cursor-pointer"
+                  onClick={chooseRecordingsFolder}
+                >
+                  <FolderOpen className="w-4 h-4" />
+                  {settings.recordingsFolder ? "Change" : "Choose Folder"}
+                </Button>
+                {settings.recordingsFolder && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="cursor-pointer"
+                    onClick={() => updateSettings({ recordingsFolder: null })}
+                  >
+                    Stop
+                  </Button>
+                )}
+              </div>
+            </SettingRow>
+            {settings.recordingsFolder && (
+              <>
+                <Separator className="bg-white/10" />
+                <SettingRow
+                  label="File name"
+                  description="Use {date}, {time}, {promptName}, {taskTitle} and {runId}. The recording's extension is added"
+                >
+                  <Input
+                    value={fileNameTemplate}
+                    onChange={(e) => setFileNameTemplate(e.target.value)}
+                    onBlur={saveFileNameTemplate}
+                    className="bg-black/40 border-white/20 text-white"
+                  />
+                </SettingRow>
+              </>
+            )}
+            <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wide">Storage</h3>
+            <SettingRow
+              label="Run files"
+              description="What happens to the recording and audio a run created once it succeeds. Failed runs keep theirs until they are retried or discarded"
+            >
+              <Select
+                value={settings.artifactRetention}
+                onValueChange={(value) =>
+                  updateSettings({ artifactRetention: value as ArtifactRetention })
+                }
+              >
+                <SelectTrigger className="w-full bg-black/40 border border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ARTIFACT_RETENTION_OPTIONS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </SettingRow>
+            {settings.artifactRetention === "keep_days" && (
+              <>
+                <Separator className="bg-white/10" />
+                <SettingRow
+                  label="Days to keep"
+                  description="How long the files of a successful run are kept"
+                >
+                  <Select
+                    value={String(settings.artifactRetentionDays)}
+                    onValueChange={(value) =>
+                      updateSettings({ artifactRetentionDays: Number(value) })
+                    }
+                  >
+                    <SelectTrigger className="w-full bg-black/40 border border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ARTIFACT_RETENTION_DAYS_OPTIONS.map((days) => (
+                        <SelectItem key={days} value={String(days)}>
+                          {days === 1 ? "1 day" : `${days} days`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </SettingRow>
+              </>
+            )}
+            <Separator className="bg-white/10" />
+            <SettingRow label="Disk usage" description="Space taken by the files runs have kept">
+              <p className="text-white/80 text-sm text-right">
+                {artifactUsage ? formatUsage(artifactUsage) : "Calculating..."}
+              </p>
+            </SettingRow>
+            <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wide">
+              Automation
+            </h3>
+            <SettingRow
+              label="Automation API"
+              description={
+                settings.automationApiEnabled
+                  ? `Other tools can submit and follow runs at http://127.0.0.1:${settings.automationApiPort}`
+                  : "Let other tools on this computer submit and follow runs over HTTP"
+              }
+            >
+              <ToggleSelect
+                value={settings.automationApiEnabled}
+                onChange={(automationApiEnabled) => updateSettings({ automationApiEnabled })}
+                onLabel="Enabled"
+                offLabel="Disabled"
+              />
+            </SettingRow>
+            {settings.automationApiEnabled && (
+              <>
+                <Separator className="bg-white/10" />
+                <SettingRow label="Port" description="The API only listens on this computer">
+                  <Input
+                    value={apiPort}
+                    inputMode="numeric"
+                    onChange={(e) => setApiPort(e.target.value)}
+                    onBlur={saveApiPort}
+                    className="bg-black/40 border-white/20 text-white"
+                  />
+                </SettingRow>
+                <Separator className="bg-white/10" />
+                <SettingRow
+                  label="Token"
+                  description="Send it as a bearer token with every request. Regenerating it locks out tools using the old one"
+                >
+                  <div className="flex gap-2">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="flex-1 cursor-pointer"
+                      disabled={!settings.automationApiToken}
+                      onClick={copyApiToken}
+                    >
+                      <Copy className="w-4 h-4" />
+                      Copy
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="cursor-pointer"
+                      onClick={regenerateApiToken}
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                      Regenerate
+                    </Button>
+                  </div>
+                </SettingRow>
+              </>
+            )}
+            <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wide">
+              Webhooks
+            </h3>
+            <p className="text-white/60 text-xs">
+              POST the run's status, video URL, summary and final result as JSON when a run
+              completes or fails. Signed payloads carry an X-YakShaver-Signature header
+            </p>
+            <WebhookSettings />
+            <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wide">Usage</h3>
+            <p className="text-white/60 text-xs">
+              Tokens, transcribed audio and cost of the LLM calls of all runs, per month. Each run
+              shows its own once it has finished
+            </p>
+            <UsageSettings
+              modelPrices={settings.modelPrices}
+              onChange={(modelPrices) => updateSettings({ modelPrices })}
+            />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
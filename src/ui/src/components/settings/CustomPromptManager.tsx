@@ -161,6 +161,8 @@ export function CustomPromptManager() {
             name: editingPrompt.name,
             description: editingPrompt.description || "",
             content: editingPrompt.content,
+            runMode: editingPrompt.runMode ?? "full",
+            models: editingPrompt.models ?? {},
           }
         : undefined,
     [editingPrompt],
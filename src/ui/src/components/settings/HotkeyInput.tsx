@@ -0,0 +1,95 @@
+import type React from "react";
+import { useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+
+const isMac = navigator.userAgent.includes("Macintosh");
+
+// Keys by KeyboardEvent.code, so a hotkey doesn't depend on the keyboard layout
+const NAMED_KEYS: Record<string, string> = {
+  Space: "Space",
+  Tab: "Tab",
+  Enter: "Return",
+  Backspace: "Backspace",
+  Delete: "Delete",
+  Insert: "Insert",
+  Home: "Home",
+  End: "End",
+  PageUp: "PageUp",
+  PageDown: "PageDown",
+  ArrowUp: "Up",
+  ArrowDown: "Down",
+  ArrowLeft: "Left",
+  ArrowRight: "Right",
+};
+
+const getKey = (code: string) => {
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit\d$/.test(code)) return code.slice(5);
+  if (/^F\d{1,2}$/.test(code)) return code;
+  return NAMED_KEYS[code];
+};
+
+/**
+ * The Electron accelerator for a key press, or null while it is incomplete. Keys other than the
+ * function keys need a modifier, or the hotkey would fire while typing in any app.
+ */
+const toAccelerator = (event: React.KeyboardEvent): string | null => {
+  const key = getKey(event.code);
+  if (!key) return null;
+
+  const modifiers = [
+    event.metaKey && (isMac ? "CommandOrControl" : "Super"),
+    event.ctrlKey && (isMac ? "Control" : "CommandOrControl"),
+    event.altKey && "Alt",
+    event.shiftKey && "Shift",
+  ].filter((modifier) => modifier !== false);
+  if (!modifiers.length && !/^F\d+$/.test(key)) return null;
+
+  return [...modifiers, key].join("+");
+};
+
+const formatAccelerator = (accelerator: string) =>
+  accelerator.replace("CommandOrControl", isMac ? "Cmd" : "Ctrl");
+
+interface HotkeyInputProps {
+  value: string | null;
+  onChange: (accelerator: string | null) => void;
+}
+
+export function HotkeyInput({ value, onChange }: HotkeyInputProps) {
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Tab") return;
+    event.preventDefault();
+    if (event.key === "Escape") {
+      event.currentTarget.blur();
+      return;
+    }
+
+    const accelerator = toAccelerator(event);
+    if (accelerator) {
+      event.currentTarget.blur();
+      if (accelerator !== value) onChange(accelerator);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        readOnly
+        value={isCapturing ? "Press a shortcut..." : value ? formatAccelerator(value) : "None"}
+        onFocus={() => setIsCapturing(true)}
+        onBlur={() => setIsCapturing(false)}
+        onKeyDown={handleKeyDown}
+        className="flex-1 bg-black/40 border-white/20 text-white cursor-pointer"
+      />
+      {value && (
+        <Button variant="ghost" size="sm" className="cursor-pointer" onClick={() => onChange(null)}>
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { Plus, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ipcClient } from "../../services/ipc-client";
+import type { ModelPrice, MonthlyUsage } from "../../types";
+import { formatErrorMessage, formatUsageTotals } from "../../utils";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+
+const PRICE_FIELDS: { key: Exclude<keyof ModelPrice, "model">; placeholder: string }[] = [
+  { key: "inputPerMillionTokens", placeholder: "$ / 1M input" },
+  { key: "outputPerMillionTokens", placeholder: "$ / 1M output" },
+  { key: "perAudioMinute", placeholder: "$ / audio min" },
+];
+
+// Prices are edited as text, so a half-typed number isn't saved; the id keys the row while its
+// model name is typed
+type PriceDraft = Record<keyof ModelPrice, string> & { id: string };
+
+const toDraft = (price: ModelPrice): PriceDraft => ({
+  id: crypto.randomUUID(),
+  model: price.model,
+  inputPerMillionTokens: String(price.inputPerMillionTokens),
+  outputPerMillionTokens: String(price.outputPerMillionTokens),
+  perAudioMinute: String(price.perAudioMinute),
+});
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+  });
+
+interface UsageSettingsProps {
+  modelPrices: ModelPrice[];
+  onChange: (modelPrices: ModelPrice[]) => Promise<void>;
+}
+
+/**
+ * Monthly totals of the usage log, and the price table that puts a cost on every LLM call.
+ */
+export function UsageSettings({ modelPrices, onChange }: UsageSettingsProps) {
+  const [monthlyUsage, setMonthlyUsage] = useState<MonthlyUsage[] | null>(null);
+  const [drafts, setDrafts] = useState<PriceDraft[]>(() => modelPrices.map(toDraft));
+
+  useEffect(() => {
+    ipcClient.usage
+      .getMonthly()
+      .then(setMonthlyUsage)
+      .catch((e) => toast.error(`Failed to load usage: ${formatErrorMessage(e)}`));
+  }, []);
+
+  useEffect(() => {
+    setDrafts(modelPrices.map(toDraft));
+  }, [modelPrices]);
+
+  const updateDraft = (id: string, changes: Partial<PriceDraft>) => {
+    setDrafts((prev) => prev.map((draft) => (draft.id === id ? { ...draft, ...changes } : draft)));
+  };
+
+  const savePrices = async (next: PriceDraft[]) => {
+    const prices: ModelPrice[] = [];
+    for (const draft of next) {
+      const model = draft.model.trim();
+      if (!model) continue; // a row still being added
+      const [input, output, audio] = PRICE_FIELDS.map(({ key }) => Number(draft[key] || 0));
+      if ([input, output, audio].some((value) => !Number.isFinite(value) || value < 0)) {
+        toast.error(`The prices of ${model} must be numbers of 0 or more`);
+        setDrafts(modelPrices.map(toDraft));
+        return;
+      }
+      prices.push({
+        model,
+        inputPerMillionTokens: input,
+        outputPerMillionTokens: output,
+        perAudioMinute: audio,
+      });
+    }
+    // saving reloads the table, which would drop a row still being added
+    if (JSON.stringify(prices) === JSON.stringify(modelPrices)) return;
+    await onChange(prices);
+  };
+
+  const removePrice = (id: string) => {
+    const next = drafts.filter((draft) => draft.id !== id);
+    setDrafts(next);
+    void savePrices(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {monthlyUsage?.length ? (
+        monthlyUsage.map(({ month, runCount, total }) => (
+          <div key={month} className="flex items-center justify-between gap-4">
+            <p className="text-white/90 text-sm font-medium">
+              {formatMonth(month)}
+              <span className="text-white/60 text-xs font-normal">
+                {` ${runCount} ${runCount === 1 ? "run" : "runs"}`}
+              </span>
+            </p>
+            <p className="text-white/80 text-sm text-right">{formatUsageTotals(total)}</p>
+          </div>
+        ))
+      ) : (
+        <p className="text-white/60 text-xs">
+          {monthlyUsage ? "No LLM calls logged yet" : "Loading usage..."}
+        </p>
+      )}
+      <p className="text-white/90 text-sm font-medium">Prices</p>
+      <p className="text-white/60 text-xs">
+        US dollars per model, by its name in the LLM settings. Calls of a model without a price are
+        logged without a cost. Changed prices apply to later calls
+      </p>
+      {drafts.map((draft) => (
+        <div key={draft.id} className="flex gap-2">
+          <Input
+            value={draft.model}
+            placeholder="Model"
+            onChange={(e) => updateDraft(draft.id, { model: e.target.value })}
+            onBlur={() => savePrices(drafts)}
+            className="flex-1 bg-black/40 border-white/20 text-white"
+          />
+          {PRICE_FIELDS.map(({ key, placeholder }) => (
+            <Input
+              key={key}
+              value={draft[key]}
+              placeholder={placeholder}
+              inputMode="decimal"
+              onChange={(e) => updateDraft(draft.id, { [key]: e.target.value })}
+              onBlur={() => savePrices(drafts)}
+              className="w-[110px] bg-black/40 border-white/20 text-white"
+            />
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="cursor-pointer"
+            aria-label="Remove price"
+            onClick={() => removePrice(draft.id)}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="secondary"
+        className="cursor-pointer self-start"
+        onClick={() =>
+          setDrafts((prev) => [
+            ...prev,
+            {
+              id: crypto.randomUUID(),
+              model: "",
+              inputPerMillionTokens: "",
+              outputPerMillionTokens: "",
+              perAudioMinute: "",
+            },
+          ])
+        }
+      >
+        <Plus className="w-4 h-4" />
+        Add Price
+      </Button>
+    </div>
+  );
+}
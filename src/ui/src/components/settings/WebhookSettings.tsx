@@ -0,0 +1,194 @@
+import { Send, Trash2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ipcClient } from "../../services/ipc-client";
+import type { Webhook, WebhookDelivery, WebhookEvent } from "../../types";
+import { formatErrorMessage } from "../../utils";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+
+const WEBHOOK_EVENT_OPTIONS: Record<string, { label: string; events: WebhookEvent[] }> = {
+  all: { label: "Completed and failed runs", events: ["run.completed", "run.failed"] },
+  completed: { label: "Completed runs", events: ["run.completed"] },
+  failed: { label: "Failed runs", events: ["run.failed"] },
+};
+
+const getEventsLabel = (events: WebhookEvent[]) =>
+  Object.values(WEBHOOK_EVENT_OPTIONS).find(
+    (option) =>
+      option.events.length === events.length &&
+      option.events.every((event) => events.includes(event)),
+  )?.label ?? "No runs";
+
+const formatDelivery = ({ ok, status, error, attempts, deliveredAt }: WebhookDelivery) => {
+  const outcome = ok ? `Delivered (HTTP ${status})` : `Failed: ${error}`;
+  const tries = attempts > 1 ? ` after ${attempts} attempts` : "";
+  return `${outcome}${tries}, ${new Date(deliveredAt).toLocaleString()}`;
+};
+
+/**
+ * Lists the webhooks that are called when a run completes or fails, and adds new ones.
+ */
+export function WebhookSettings() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [url, setUrl] = useState("");
+  const [secret, setSecret] = useState("");
+  const [eventsOption, setEventsOption] = useState("all");
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      setWebhooks(await ipcClient.webhooks.list());
+    } catch (e) {
+      toast.error(`Failed to load webhooks: ${formatErrorMessage(e)}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadWebhooks();
+  }, [loadWebhooks]);
+
+  const addWebhook = async () => {
+    try {
+      await ipcClient.webhooks.add({
+        url: url.trim(),
+        secret: secret.trim() || null,
+        events: WEBHOOK_EVENT_OPTIONS[eventsOption].events,
+      });
+      setUrl("");
+      setSecret("");
+      await loadWebhooks();
+    } catch (e) {
+      toast.error(`Failed to add webhook: ${formatErrorMessage(e)}`);
+    }
+  };
+
+  const setEnabled = async (webhook: Webhook, enabled: boolean) => {
+    try {
+      await ipcClient.webhooks.update(webhook.id, { enabled });
+      await loadWebhooks();
+    } catch (e) {
+      toast.error(`Failed to update webhook: ${formatErrorMessage(e)}`);
+    }
+  };
+
+  const deleteWebhook = async (webhook: Webhook) => {
+    try {
+      await ipcClient.webhooks.delete(webhook.id);
+      await loadWebhooks();
+    } catch (e) {
+      toast.error(`Failed to delete webhook: ${formatErrorMessage(e)}`);
+    }
+  };
+
+  const sendTest = async (webhook: Webhook) => {
+    setTestingId(webhook.id);
+    try {
+      const delivery = await ipcClient.webhooks.test(webhook.id);
+      if (delivery.ok) {
+        toast.success(`Test payload delivered to ${webhook.url}`);
+      } else {
+        toast.error(`Test payload wasn't delivered: ${delivery.error}`);
+      }
+      await loadWebhooks();
+    } catch (e) {
+      toast.error(`Failed to send test payload: ${formatErrorMessage(e)}`);
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {webhooks.map((webhook) => (
+        <div
+          key={webhook.id}
+          className="flex items-center justify-between gap-4 rounded-md border border-white/10 p-3"
+        >
+          <div className="flex-1 min-w-0">
+            <p className="text-white/90 text-sm font-mono truncate">{webhook.url}</p>
+            <p className="text-white/60 text-xs">
+              {getEventsLabel(webhook.events)}
+              {webhook.secret ? ", signed" : ""}
+              {webhook.enabled ? "" : ", disabled"}
+            </p>
+            {webhook.lastDelivery && (
+              <p
+                className={`text-xs break-words ${webhook.lastDelivery.ok ? "text-white/50" : "text-red-400"}`}
+              >
+                {formatDelivery(webhook.lastDelivery)}
+              </p>
+            )}
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              className="cursor-pointer"
+              disabled={testingId === webhook.id}
+              onClick={() => sendTest(webhook)}
+            >
+              <Send className="w-4 h-4" />
+              {testingId === webhook.id ? "Sending..." : "Test"}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="cursor-pointer"
+              onClick={() => setEnabled(webhook, !webhook.enabled)}
+            >
+              {webhook.enabled ? "Disable" : "Enable"}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="cursor-pointer"
+              aria-label="Delete webhook"
+              onClick={() => deleteWebhook(webhook)}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com/webhooks/yakshaver"
+          className="flex-1 bg-black/40 border-white/20 text-white"
+        />
+        <Input
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          placeholder="Signing secret (optional)"
+          type="password"
+          className="w-[180px] bg-black/40 border-white/20 text-white"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Select value={eventsOption} onValueChange={setEventsOption}>
+          <SelectTrigger className="flex-1 bg-black/40 border border-white/20 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(WEBHOOK_EVENT_OPTIONS).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="secondary"
+          className="cursor-pointer"
+          disabled={!url.trim()}
+          onClick={addWebhook}
+        >
+          Add Webhook
+        </Button>
+      </div>
+    </div>
+  );
+}
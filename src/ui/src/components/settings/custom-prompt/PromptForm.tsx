@@ -3,6 +3,7 @@ import { Copy, Trash2 } from "lucide-react";
 import { forwardRef, useEffect, useImperativeHandle } from "react";
 import { useForm } from "react-hook-form";
 import { useClipboard } from "../../../hooks/useClipboard";
+import { LLM_STAGE_LABELS, type LLMStage, RUN_MODES, type RunMode } from "../../../types";
 import { Button } from "../../ui/button";
 import {
   Form,
@@ -14,6 +15,7 @@ import {
   FormMessage,
 } from "../../ui/form";
 import { Input } from "../../ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../ui/select";
 import { Textarea } from "../../ui/textarea";
 import { type PromptFormValues, promptFormSchema } from "./schema";
 
@@ -40,6 +42,8 @@ export const PromptForm = forwardRef<PromptFormRef, PromptFormProps>(
         name: "",
         description: "",
         content: "",
+        runMode: "full",
+        models: {},
       },
       mode: "onChange",
     });
@@ -121,6 +125,62 @@ export const PromptForm = forwardRef<PromptFormRef, PromptFormProps>(
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="runMode"
+            render={({ field }) => (
+              <FormItem className="shrink-0">
+                <FormLabel className="text-white/90 text-sm">Run Mode</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="w-full bg-black/40 border border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {(Object.keys(RUN_MODES) as RunMode[]).map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {RUN_MODES[mode].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription className="text-white/50">
+                  Pipeline stages to run while this prompt is active, unless a run picks its own
+                </FormDescription>
+              </FormItem>
+            )}
+          />
+
+          <div className="flex flex-col gap-2 shrink-0">
+            <p className="text-white/90 text-sm font-medium">Models</p>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(LLM_STAGE_LABELS) as LLMStage[]).map((stage) => (
+                <FormField
+                  key={stage}
+                  control={form.control}
+                  name={`models.${stage}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          value={field.value ?? ""}
+                          placeholder={LLM_STAGE_LABELS[stage]}
+                          aria-label={`${LLM_STAGE_LABELS[stage]} model`}
+                          className="bg-black/40 border-white/20"
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <p className="text-white/50 text-sm">
+              Models to use while this prompt is active; leave empty for the ones in LLM Settings
+            </p>
+          </div>
+
           <FormField
             control={form.control}
             name="content"
@@ -4,6 +4,12 @@ export const promptFormSchema = z.object({
   name: z.string().min(1, "Prompt name is required").trim(),
   description: z.string().trim().optional(),
   content: z.string().min(1, "Prompt content is required").trim(),
+  runMode: z.enum(["full", "local_only", "summary_only", "transcript_only", "upload_only"]),
+  models: z.object({
+    transcription: z.string().trim().optional(),
+    summary: z.string().trim().optional(),
+    taskExecution: z.string().trim().optional(),
+  }),
 });
 
 export type PromptFormValues = z.infer<typeof promptFormSchema>;
@@ -1,7 +1,11 @@
 export type ViewMode = "list" | "edit" | "create";
 
+import type { LLMStageModels, RunMode } from "@/types";
+
 export interface PromptFormData {
   name: string;
   description?: string;
   content: string;
+  runMode: RunMode;
+  models: LLMStageModels;
 }
@@ -1,8 +1,8 @@
 import { Copy, ExternalLink } from "lucide-react";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useClipboard } from "../../hooks/useClipboard";
 import { ipcClient } from "../../services/ipc-client";
-import { ProgressStage, type WorkflowProgress } from "../../types";
+import { ProgressStage } from "../../types";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 
 interface ParsedResult {
@@ -14,7 +14,7 @@ interface RawTextDisplayProps {
   content: string;
 }
 
-function RawTextDisplay({ content }: RawTextDisplayProps) {
+export function RawTextDisplay({ content }: RawTextDisplayProps) {
   return (
     <div className="text-white/80 text-sm font-mono whitespace-pre-wrap bg-white/5 p-4 rounded-md border border-white/10">
       {content}
@@ -22,7 +22,7 @@ function RawTextDisplay({ content }: RawTextDisplayProps) {
   );
 }
 
-function JsonResultDisplay({ data }: { data: ParsedResult }) {
+export function JsonResultDisplay({ data }: { data: ParsedResult }) {
   const { copyToClipboard } = useClipboard();
   const entries = Object.entries(data).filter(([key]) => key !== "Status" && key !== "IssueNumber");
 
@@ -154,18 +154,21 @@ function JsonResultDisplay({ data }: { data: ParsedResult }) {
 
 export function FinalResultPanel() {
   const [finalOutput, setFinalOutput] = useState<string | undefined>();
+  const runIdRef = useRef<string | undefined>(undefined);
 
   useEffect(() => {
-    return ipcClient.workflow.onProgress((data: unknown) => {
-      const progressData = data as WorkflowProgress;
-      if (progressData.finalOutput) {
-        setFinalOutput(progressData.finalOutput);
-      } else if (
-        progressData.stage === ProgressStage.IDLE ||
-        progressData.stage === ProgressStage.CONVERTING_AUDIO
-      ) {
+    return ipcClient.workflow.onEvent((event) => {
+      // Like the workflow panel, only follow the runs started from the UI
+      if (event.batchId || event.external) return;
+
+      // Clear the last run's result as soon as another run reports in
+      if (event.runId !== runIdRef.current) {
+        runIdRef.current = event.runId;
         setFinalOutput(undefined);
       }
+      if (event.kind === "stage" && event.stage === ProgressStage.COMPLETED) {
+        setFinalOutput(event.payload.finalOutput ?? undefined);
+      }
     });
   }, []);
 
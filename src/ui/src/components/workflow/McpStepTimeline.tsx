@@ -0,0 +1,146 @@
+import { Check, Play, RotateCcw, ShieldQuestion, Wrench, X } from "lucide-react";
+import type React from "react";
+import type { MCPStep, ToolApprovalDecision } from "../../types";
+import { deepParseJson } from "../../utils";
+import { ReasoningStep } from "./ReasoningStep";
+import { ToolApprovalRequest } from "./ToolApprovalRequest";
+
+const handleDetailsToggle = (data: unknown) => (e: React.SyntheticEvent<HTMLDetailsElement>) => {
+  const details = e.currentTarget;
+  if (details.open) {
+    const pre = details.querySelector("pre");
+    if (pre && !pre.dataset.parsed) {
+      pre.textContent = JSON.stringify(deepParseJson(data), null, 2);
+      pre.dataset.parsed = "true";
+    }
+  }
+};
+
+function ToolResultError({ error }: { error: string }) {
+  return (
+    <div className="text-red-400 flex items-center gap-1">
+      <X className="w-3 h-3" />
+      Error: {error}
+    </div>
+  );
+}
+
+function ToolResultSuccess({ result }: { result: unknown }) {
+  return (
+    <div className="space-y-1">
+      {result !== undefined && result !== null && (
+        <details className="text-xs" onToggle={handleDetailsToggle(result)}>
+          <summary className="text-zinc-400 cursor-pointer hover:text-zinc-400/80">
+            View result
+          </summary>
+          <pre className="mt-1 p-2 bg-black rounded text-zinc-400 overflow-x-auto max-h-[200px] overflow-y-auto">
+            Loading...
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
+
+function ToolCallStep({
+  toolName,
+  serverName,
+  args,
+}: {
+  toolName?: string;
+  serverName?: string;
+  args?: Record<string, unknown>;
+}) {
+  const hasArgs = args && Object.keys(args).length > 0;
+
+  return (
+    <div className="space-y-1">
+      <div className="text-secondary font-medium flex items-center gap-2">
+        <Wrench className="w-4 h-4" />
+        Calling tool: {toolName}
+        <span className="text-zinc-400 text-xs ml-2">(from {serverName})</span>
+      </div>
+      {hasArgs && (
+        <details className="ml-4 text-xs" onToggle={handleDetailsToggle(args)}>
+          <summary className="text-zinc-400 cursor-pointer hover:text-zinc-400/80">
+            Arguments
+          </summary>
+          <pre className="mt-1 p-2 bg-black rounded text-zinc-400 overflow-x-auto">Loading...</pre>
+        </details>
+      )}
+    </div>
+  );
+}
+
+interface McpStepTimelineProps {
+  steps: MCPStep[];
+  containerRef?: React.RefObject<HTMLDivElement | null>;
+  // Answers the pending approval; when omitted (e.g. in the run history) approvals are read-only
+  onApprovalResponse?: (approvalId: string, decision: ToolApprovalDecision) => Promise<void>;
+}
+
+export function McpStepTimeline({ steps, containerRef, onApprovalResponse }: McpStepTimelineProps) {
+  // The orchestrator is paused on an approval until it is answered, so only the latest step can
+  // still be waiting
+  const pendingApproval = steps.at(-1)?.type === "tool_approval" ? steps.at(-1) : undefined;
+
+  return (
+    <div
+      ref={containerRef}
+      className="bg-black/30 border border-white/10 rounded-md p-3 max-h-[400px] overflow-y-auto space-y-2"
+    >
+      {steps.map((step) => (
+        <div key={step.id ?? step.timestamp} className="border-l-2 border-green-400/30 pl-3 py-1">
+          {step.type === "start" && (
+            <div className="text-secondary font-medium flex items-center gap-2">
+              <Play className="w-4 h-4" />
+              {step.message || "Start task execution"}
+            </div>
+          )}
+          {step.type === "reasoning" && step.reasoning && (
+            <ReasoningStep reasoning={step.reasoning} partial={step.partial} />
+          )}
+          {step.type === "tool_approval" &&
+            (step === pendingApproval && step.approvalId && onApprovalResponse ? (
+              <ToolApprovalRequest
+                key={step.approvalId}
+                toolName={step.toolName}
+                serverName={step.serverName}
+                args={step.args}
+                onRespond={(decision) => onApprovalResponse(step.approvalId as string, decision)}
+              />
+            ) : (
+              <div className="text-zinc-400 flex items-center gap-2">
+                <ShieldQuestion className="w-4 h-4" />
+                Approval requested for {step.toolName}
+              </div>
+            ))}
+          {step.type === "tool_call" && (
+            <ToolCallStep toolName={step.toolName} serverName={step.serverName} args={step.args} />
+          )}
+          {step.type === "tool_result" && (
+            <div className="ml-4 space-y-1">
+              {step.error ? (
+                <ToolResultError error={step.error} />
+              ) : (
+                <ToolResultSuccess result={step.result} />
+              )}
+            </div>
+          )}
+          {step.type === "retry" && (
+            <div className="text-yellow-400 flex items-center gap-2">
+              <RotateCcw className="w-4 h-4" />
+              {step.message}
+            </div>
+          )}
+          {step.type === "final_result" && (
+            <div className="text-secondary font-medium flex items-center gap-2">
+              <Check className="w-4 h-4" />
+              {step.message || "Generated final result"}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Brain } from "lucide-react";
+import { Brain, Loader2 } from "lucide-react";
 
 interface ReasoningData {
   goal?: string;
@@ -9,9 +9,10 @@ interface ReasoningData {
 
 interface ReasoningStepProps {
   reasoning: string;
+  partial?: boolean; // still streaming in, so the plan shows what has been written so far
 }
 
-export function ReasoningStep({ reasoning }: ReasoningStepProps) {
+export function ReasoningStep({ reasoning, partial }: ReasoningStepProps) {
   let parsed: ReasoningData = {};
 
   try {
@@ -25,6 +26,7 @@ export function ReasoningStep({ reasoning }: ReasoningStepProps) {
       <div className="text-secondary font-medium flex items-center gap-2">
         <Brain className="w-4 h-4" />
         AI Reasoning & Plan
+        {partial && <Loader2 className="w-3 h-3 animate-spin text-zinc-400" />}
       </div>
       <details className="ml-4 text-xs" open>
         <summary className="text-zinc-400 cursor-pointer hover:text-zinc-400/80">
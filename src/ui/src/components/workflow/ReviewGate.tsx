@@ -0,0 +1,94 @@
+import { ArrowRight, RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { ipcClient } from "../../services/ipc-client";
+import type { ReviewDecision } from "../../types";
+import { formatErrorMessage } from "../../utils";
+import { Button } from "../ui/button";
+import { Textarea } from "../ui/textarea";
+
+interface ReviewGateProps {
+  runId?: string;
+  initialContent: string;
+  description: string;
+  isJson?: boolean; // the edited content must stay valid JSON
+  allowRegenerate?: boolean;
+}
+
+export function ReviewGate({
+  runId,
+  initialContent,
+  description,
+  isJson = false,
+  allowRegenerate = false,
+}: ReviewGateProps) {
+  const [content, setContent] = useState(initialContent);
+  const [contentError, setContentError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (decision: ReviewDecision) => {
+    if (!runId) return;
+
+    setIsSubmitting(true);
+    try {
+      const accepted = await ipcClient.pipelines.submitReview(runId, decision);
+      if (!accepted) toast.error("This run is no longer waiting for a review");
+    } catch (e) {
+      toast.error(`Failed to submit review: ${formatErrorMessage(e)}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleContinue = () => {
+    if (isJson) {
+      try {
+        JSON.parse(content);
+      } catch {
+        setContentError("Invalid JSON format");
+        return;
+      }
+    }
+    void submit({ action: "continue", content });
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-white/60 text-xs">{description}</p>
+      <Textarea
+        value={content}
+        onChange={(e) => {
+          setContent(e.target.value);
+          setContentError(null);
+        }}
+        rows={10}
+        className={`text-white/80 bg-black/30 border-white/10 ${isJson ? "font-mono text-xs" : "text-sm"}`}
+      />
+      {contentError && <p className="text-red-400 text-xs">{contentError}</p>}
+      <div className="flex justify-end gap-2">
+        {allowRegenerate && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="cursor-pointer bg-neutral-800 text-white border-neutral-700 hover:bg-neutral-800/80 hover:text-white/80"
+            disabled={isSubmitting}
+            onClick={() => submit({ action: "regenerate" })}
+          >
+            <RefreshCw className="w-4 h-4" />
+            Regenerate
+          </Button>
+        )}
+        <Button
+          variant="secondary"
+          size="sm"
+          className="cursor-pointer"
+          disabled={isSubmitting}
+          onClick={handleContinue}
+        >
+          <ArrowRight className="w-4 h-4" />
+          Continue
+        </Button>
+      </div>
+    </div>
+  );
+}
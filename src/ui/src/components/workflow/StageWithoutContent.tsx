@@ -3,14 +3,16 @@ import { STAGE_CONFIG, type WorkflowStage } from "../../types";
 interface StageWithoutContentProps {
   stage: WorkflowStage;
   getStageIcon: (stage: WorkflowStage) => React.ReactNode;
+  detail?: string; // how far the stage has got, shown next to its name
 }
 
-export function StageWithoutContent({ stage, getStageIcon }: StageWithoutContentProps) {
+export function StageWithoutContent({ stage, getStageIcon, detail }: StageWithoutContentProps) {
   return (
     <div className="px-4 py-3">
       <div className="flex items-center gap-3">
         {getStageIcon(stage)}
         <span className="text-white/90 font-medium">{STAGE_CONFIG[stage]}</span>
+        {detail && <span className="text-white/50 text-sm">{detail}</span>}
       </div>
     </div>
   );
@@ -0,0 +1,113 @@
+import { Check, Pencil, ShieldQuestion, X } from "lucide-react";
+import { useState } from "react";
+import type { ToolApprovalDecision } from "../../types";
+import { Button } from "../ui/button";
+import { Textarea } from "../ui/textarea";
+
+interface ToolApprovalRequestProps {
+  toolName?: string;
+  serverName?: string;
+  args?: Record<string, unknown>;
+  onRespond: (decision: ToolApprovalDecision) => Promise<void>;
+}
+
+export function ToolApprovalRequest({
+  toolName,
+  serverName,
+  args,
+  onRespond,
+}: ToolApprovalRequestProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedArgs, setEditedArgs] = useState(() => JSON.stringify(args ?? {}, null, 2));
+  const [argsError, setArgsError] = useState<string | null>(null);
+  const [isResponding, setIsResponding] = useState(false);
+
+  const respond = async (decision: ToolApprovalDecision) => {
+    setIsResponding(true);
+    try {
+      await onRespond(decision);
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  const handleApprove = () => {
+    if (!isEditing) {
+      void respond({ approved: true });
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(editedArgs);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        setArgsError("Arguments must be a JSON object");
+        return;
+      }
+      void respond({ approved: true, args: parsed });
+    } catch {
+      setArgsError("Invalid JSON format");
+    }
+  };
+
+  return (
+    <div className="space-y-2 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-md">
+      <div className="text-yellow-300 font-medium flex items-center gap-2">
+        <ShieldQuestion className="w-4 h-4" />
+        Approve tool call: {toolName}
+        <span className="text-zinc-400 text-xs ml-2">(from {serverName})</span>
+      </div>
+      {isEditing ? (
+        <div className="space-y-1">
+          <Textarea
+            value={editedArgs}
+            onChange={(e) => {
+              setEditedArgs(e.target.value);
+              setArgsError(null);
+            }}
+            rows={6}
+            className="text-white font-mono text-xs bg-black/40 border-white/20"
+          />
+          {argsError && <p className="text-red-400 text-xs">{argsError}</p>}
+        </div>
+      ) : (
+        <pre className="p-2 bg-black rounded text-zinc-400 text-xs overflow-x-auto max-h-[200px] overflow-y-auto">
+          {JSON.stringify(args ?? {}, null, 2)}
+        </pre>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="destructive"
+          size="sm"
+          className="cursor-pointer"
+          disabled={isResponding}
+          onClick={() => respond({ approved: false })}
+        >
+          <X className="w-4 h-4" />
+          Deny
+        </Button>
+        {!isEditing && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="cursor-pointer bg-neutral-800 text-white border-neutral-700 hover:bg-neutral-800/80 hover:text-white/80"
+            disabled={isResponding}
+            onClick={() => setIsEditing(true)}
+          >
+            <Pencil className="w-4 h-4" />
+            Edit
+          </Button>
+        )}
+        <Button
+          variant="secondary"
+          size="sm"
+          className="cursor-pointer"
+          disabled={isResponding}
+          onClick={handleApprove}
+        >
+          <Check className="w-4 h-4" />
+          Approve
+        </Button>
+      </div>
+    </div>
+  );
+}
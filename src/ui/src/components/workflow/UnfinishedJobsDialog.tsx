@@ -0,0 +1,108 @@
+import { Play, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ipcClient } from "../../services/ipc-client";
+import type { VideoJob } from "../../types";
+import { formatErrorMessage } from "../../utils";
+import { Button } from "../ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "../ui/dialog";
+
+const getLastCompletedStage = ({ checkpoints }: VideoJob): string => {
+  if (checkpoints.mcpResult) return "Task executed";
+  if (checkpoints.intermediateOutput) return "Transcript analyzed";
+  if (checkpoints.transcript) return "Audio transcribed";
+  if (checkpoints.mp3FilePath) return "Audio converted";
+  if (checkpoints.uploadResult) return "Video uploaded";
+  return "Not started";
+};
+
+export function UnfinishedJobsDialog() {
+  const [jobs, setJobs] = useState<VideoJob[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    ipcClient.pipelines
+      .listUnfinishedJobs()
+      .then((unfinished) => {
+        setJobs(unfinished);
+        setOpen(unfinished.length > 0);
+      })
+      .catch((e) => console.error(formatErrorMessage(e)));
+  }, []);
+
+  const removeFromList = (jobId: string) => {
+    setJobs((prev) => {
+      const remaining = prev.filter((job) => job.id !== jobId);
+      if (!remaining.length) setOpen(false);
+      return remaining;
+    });
+  };
+
+  const handleResume = (jobId: string) => {
+    removeFromList(jobId);
+    setOpen(false);
+    ipcClient.pipelines.resumeJob(jobId).catch((e) => {
+      toast.error(`Resuming failed: ${formatErrorMessage(e)}`);
+    });
+  };
+
+  const handleDiscard = async (jobId: string) => {
+    try {
+      await ipcClient.pipelines.discardJob(jobId);
+      removeFromList(jobId);
+    } catch (e) {
+      toast.error(`Failed to discard job: ${formatErrorMessage(e)}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="max-w-lg bg-neutral-900 text-neutral-100 border-neutral-800">
+        <DialogHeader>
+          <DialogTitle className="text-white text-xl">Unfinished Jobs</DialogTitle>
+          <DialogDescription className="text-white/80 text-sm">
+            These recordings were not fully processed. Resume them from the last completed stage or
+            discard them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-3 max-h-[50vh] overflow-y-auto">
+          {jobs.map((job) => (
+            <div
+              key={job.id}
+              className="flex items-center justify-between gap-3 p-3 bg-black/30 border border-white/20 rounded-md"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-white text-sm font-medium">
+                  {new Date(job.createdAt).toLocaleString()}
+                </p>
+                <p className="text-white/60 text-xs">
+                  Last completed: {getLastCompletedStage(job)}
+                </p>
+                {job.error && <p className="text-red-400 text-xs truncate">{job.error}</p>}
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  className="cursor-pointer"
+                  onClick={() => handleDiscard(job.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  className="cursor-pointer"
+                  onClick={() => handleResume(job.id)}
+                >
+                  <Play className="w-4 h-4" />
+                  Resume
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,85 +1,298 @@
-import { AlertCircle, CheckCircle2, Loader2, XCircle } from "lucide-react";
+import {
+  AlertCircle,
+  Ban,
+  CheckCircle2,
+  Coins,
+  FolderDown,
+  HardDrive,
+  Loader2,
+  PencilLine,
+  RotateCcw,
+  Wrench,
+  XCircle,
+} from "lucide-react";
 import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { useSettingsDialog } from "../../contexts/SettingsDialogContext";
+import { useYouTubeAuth } from "../../contexts/YouTubeAuthContext";
 import { ipcClient } from "../../services/ipc-client";
-import { ProgressStage, type WorkflowProgress, type WorkflowStage } from "../../types";
+import {
+  type ErrorRemediation,
+  LLM_STAGE_LABELS,
+  type LLMStage,
+  type MCPStep,
+  type PipelineBranch,
+  ProgressStage,
+  REMEDIATION_LABELS,
+  RUN_END_STAGES,
+  RUN_MODES,
+  type RunMode,
+  type RunModeSteps,
+  type RunUsage,
+  STAGE_CONFIG,
+  type WorkflowProgress,
+  type WorkflowStage,
+} from "../../types";
+import { formatErrorMessage, formatUsageTotals } from "../../utils";
 import { Accordion, AccordionItem } from "../ui/accordion";
+import { Button } from "../ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
-import { type MCPStep, StageWithContent } from "./StageWithContent";
+import { StageWithContent } from "./StageWithContent";
 import { StageWithoutContent } from "./StageWithoutContent";
 
-const WORKFLOW_STAGES: WorkflowStage[] = [
-  ProgressStage.CONVERTING_AUDIO,
+// Stages whose failed LLM request shows as waiting to be retried; task execution shows its
+// retries as steps
+const RETRYING_STAGES: WorkflowStage[] = [
   ProgressStage.TRANSCRIBING,
   ProgressStage.GENERATING_TASK,
-  ProgressStage.EXECUTING_TASK,
 ];
 
+// Drops what a failed attempt of the run reported, once it is retried or fails again
+const withoutFailure = ({
+  error: _error,
+  detail: _detail,
+  failedStage: _failedStage,
+  remediation: _remediation,
+  ...progress
+}: WorkflowProgress): WorkflowProgress => progress;
+
+// Each stage row and the pipeline step it belongs to, so a run only lists the stages its mode runs
+const WORKFLOW_STAGES: [WorkflowStage, keyof RunModeSteps][] = [
+  [ProgressStage.UPLOADING, "upload"],
+  [ProgressStage.CONVERTING_AUDIO, "transcribe"],
+  [ProgressStage.TRANSCRIBING, "transcribe"],
+  [ProgressStage.GENERATING_TASK, "summarize"],
+  [ProgressStage.EXECUTING_TASK, "execute"],
+];
+
+const getWorkflowStages = (mode: RunMode = "full") =>
+  WORKFLOW_STAGES.filter(([, step]) => RUN_MODES[mode].steps[step]).map(([stage]) => stage);
+
+// The upload and transcription branches progress independently until the task lane joins them
+type Lane = PipelineBranch | "task";
+
+const LANE_STAGES: Record<Lane, WorkflowStage[]> = {
+  upload: [ProgressStage.UPLOADING, ProgressStage.UPLOAD_COMPLETED],
+  transcription: [
+    ProgressStage.CONVERTING_AUDIO,
+    ProgressStage.TRANSCRIBING,
+    ProgressStage.TRANSCRIPTION_COMPLETED,
+  ],
+  task: [
+    ProgressStage.REVIEWING_TRANSCRIPT,
+    ProgressStage.GENERATING_TASK,
+    ProgressStage.REVIEWING_SUMMARY,
+    ProgressStage.EXECUTING_TASK,
+    ProgressStage.COMPLETED,
+  ],
+};
+
+// Review gates are shown inside the stage whose output is being reviewed
+const REVIEWED_STAGES: Partial<Record<WorkflowStage, WorkflowStage>> = {
+  [ProgressStage.REVIEWING_TRANSCRIPT]: ProgressStage.TRANSCRIBING,
+  [ProgressStage.REVIEWING_SUMMARY]: ProgressStage.GENERATING_TASK,
+};
+
+type StageStatus = "pending" | "active" | "review" | "completed" | "error";
+
+const getLane = (stage: WorkflowStage) =>
+  (Object.keys(LANE_STAGES) as Lane[]).find((lane) => LANE_STAGES[lane].includes(stage));
+
 export function WorkflowProgressPanel() {
   const [progress, setProgress] = useState<WorkflowProgress>({ stage: ProgressStage.IDLE });
   const [mcpSteps, setMcpSteps] = useState<MCPStep[]>([]);
   const [openAccordions, setOpenAccordions] = useState<string[]>([]);
+  const [laneStages, setLaneStages] = useState<Partial<Record<Lane, WorkflowStage>>>({});
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [usage, setUsage] = useState<RunUsage | null>(null);
+  const { setOpenDialog } = useSettingsDialog();
+  const { startAuth } = useYouTubeAuth();
   const stepsRef = useRef<HTMLDivElement | null>(null);
+  const runIdRef = useRef<string | undefined>(undefined);
+  const lastSeqRef = useRef(-1);
 
   useEffect(() => {
-    return ipcClient.workflow.onProgress((data: unknown) => {
-      const progressData = data as WorkflowProgress;
-      setProgress((prev) => {
-        if (
-          progressData.stage === ProgressStage.EXECUTING_TASK &&
-          prev.stage !== ProgressStage.EXECUTING_TASK
-        ) {
-          setMcpSteps([]);
+    return ipcClient.workflow.onEvent((event) => {
+      // Batch runs go side by side, so the batch panel reports on them instead, and runs submitted
+      // from outside the UI are followed by whoever submitted them
+      if (event.batchId || event.external) return;
+
+      const isNewRun = event.runId !== runIdRef.current;
+      // Events of a run arrive numbered in order, so anything not newer than the last is stale
+      if (!isNewRun && event.seq <= lastSeqRef.current) return;
+      runIdRef.current = event.runId;
+      lastSeqRef.current = event.seq;
+
+      if (isNewRun || (event.kind === "stage" && event.stage === ProgressStage.EXECUTING_TASK)) {
+        setMcpSteps([]);
+      }
+
+      // A step only moves the progress on when it is the first event seen of its run,
+      // e.g. after a reload mid-execution
+      if (event.kind === "stage" || isNewRun) {
+        const progressData: WorkflowProgress = {
+          stage: event.stage,
+          runId: event.runId,
+          mode: event.mode,
+          // Another attempt at transcribing starts with none of the chunks done, and the events of
+          // a stage that retries a request only carry the retry while it waits
+          ...(event.stage === ProgressStage.TRANSCRIBING && { chunks: undefined }),
+          ...(RETRYING_STAGES.includes(event.stage) && { retry: undefined }),
+          ...(event.kind === "stage" ? event.payload : {}),
+        };
+
+        const lane = getLane(progressData.stage);
+        setLaneStages((prev) => {
+          const current = isNewRun ? {} : prev;
+          return lane ? { ...current, [lane]: progressData.stage } : current;
+        });
+
+        if (RUN_END_STAGES.includes(progressData.stage)) {
+          setIsCancelling(false);
+          setIsRetrying(false);
         }
-        return progressData;
-      });
+        setProgress((prev) =>
+          // Keep what the run produced so far visible after it failed or was cancelled, and while
+          // the parallel branches report in one at a time
+          !isNewRun &&
+          (RUN_END_STAGES.includes(progressData.stage) || progressData.branch !== undefined)
+            ? { ...withoutFailure(prev), ...progressData }
+            : progressData,
+        );
 
-      const stageIndex = WORKFLOW_STAGES.indexOf(progressData.stage);
-      if (stageIndex !== -1) setOpenAccordions([`stage-${stageIndex}`]);
-    });
-  }, []);
+        const stageIndex = getWorkflowStages(progressData.mode).indexOf(
+          REVIEWED_STAGES[progressData.stage] ?? progressData.stage,
+        );
+        if (stageIndex !== -1) setOpenAccordions([`stage-${stageIndex}`]);
+      }
 
-  useEffect(() => {
-    return ipcClient.mcp.onStepUpdate((step) => {
-      setMcpSteps((prev) => {
-        const updated = [...prev, { ...step, timestamp: Date.now() }];
+      if (event.kind === "step") {
+        const { step } = event.payload;
+        setMcpSteps((prev) =>
+          // a streamed step replaces its earlier version rather than adding another
+          step.id && prev.some((s) => s.id === step.id)
+            ? prev.map((s) => (s.id === step.id ? step : s))
+            : [...prev, step],
+        );
         requestAnimationFrame(() => {
           if (stepsRef.current) {
             stepsRef.current.scrollTop = stepsRef.current.scrollHeight;
           }
         });
-        return updated;
-      });
+      }
     });
   }, []);
 
-  const getStageIcon = (stage: WorkflowStage) => {
-    const currentIndex = WORKFLOW_STAGES.indexOf(progress.stage);
-    const stageIndex = WORKFLOW_STAGES.indexOf(stage);
-    const isActive = stage === progress.stage;
-    const isCompleted = stageIndex < currentIndex || progress.stage === ProgressStage.COMPLETED;
-    const isError = progress.stage === ProgressStage.ERROR;
-
-    if (isError && stage === progress.stage) {
-      return <XCircle className="w-4 h-4 text-red-400" />;
+  // What the run's LLM calls used is only totalled once it has finished
+  const isFinished = RUN_END_STAGES.includes(progress.stage);
+  useEffect(() => {
+    setUsage(null);
+    if (!isFinished || !progress.runId) return;
+    ipcClient.usage
+      .getRun(progress.runId)
+      .then(setUsage)
+      .catch((e) => console.error(formatErrorMessage(e)));
+  }, [isFinished, progress.runId]);
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      const cancelled = await ipcClient.pipelines.cancel(progress.runId);
+      if (!cancelled) setIsCancelling(false);
+    } catch (e) {
+      setIsCancelling(false);
+      toast.error(`Failed to cancel: ${formatErrorMessage(e)}`);
     }
-    if (isCompleted) {
-      return <CheckCircle2 className="w-4 h-4 text-green-400" />;
+  };
+
+  const handleRetry = async () => {
+    if (!progress.runId) return;
+    setIsRetrying(true);
+    try {
+      await ipcClient.pipelines.retryVideo(progress.runId);
+    } catch (e) {
+      setIsRetrying(false);
+      toast.error(`Retry failed: ${formatErrorMessage(e)}`);
     }
-    if (isActive) {
-      return <Loader2 className="w-4 h-4 animate-spin text-zinc-300" />;
+  };
+
+  const handleRemediation = (remediation?: ErrorRemediation) => {
+    switch (remediation) {
+      case "open_llm_settings":
+        setOpenDialog("llm");
+        break;
+      case "open_mcp_settings":
+        setOpenDialog("mcp");
+        break;
+      case "connect_youtube":
+        void startAuth();
+        break;
     }
-    return <div className="w-4 h-4 rounded-full border-2 border-white/20" />;
   };
 
-  const getStageClassName = (stage: WorkflowStage) => {
-    const stageIndex = WORKFLOW_STAGES.indexOf(stage);
-    const currentIndex = WORKFLOW_STAGES.indexOf(progress.stage);
+  const getStageStatus = (stage: WorkflowStage): StageStatus => {
+    if (REVIEWED_STAGES[progress.stage] === stage) return "review";
+
+    const lane = getLane(stage);
+    if (!lane) return "pending";
 
-    if (stage === progress.stage) return "border-gray-500/30 bg-gray-500/5";
-    if (stageIndex < currentIndex || progress.stage === ProgressStage.COMPLETED) {
-      return "border-green-500/30 bg-green-500/5";
+    const stages = LANE_STAGES[lane];
+    // Once the task lane has started, both branches have joined and are done
+    const reached =
+      lane !== "task" && laneStages.task ? stages[stages.length - 1] : laneStages[lane];
+    const stageIndex = stages.indexOf(stage);
+    const reachedIndex = reached ? stages.indexOf(reached) : -1;
+
+    if (stageIndex < reachedIndex) return "completed";
+    if (stageIndex > reachedIndex) return "pending";
+    if (progress.stage === ProgressStage.ERROR) {
+      // The other branch has settled by the time the run fails, so only one stage failed
+      const { failedStage } = progress;
+      if (!failedStage) return "error";
+      return stage === (REVIEWED_STAGES[failedStage] ?? failedStage) ? "error" : "pending";
+    }
+    if (progress.stage === ProgressStage.CANCELLED) return "pending";
+    return "active";
+  };
+
+  const workflowStages = getWorkflowStages(progress.mode);
+
+  const getStageIcon = (stage: WorkflowStage) => {
+    switch (getStageStatus(stage)) {
+      case "error":
+        return <XCircle className="w-4 h-4 text-red-400" />;
+      case "completed":
+        return <CheckCircle2 className="w-4 h-4 text-green-400" />;
+      case "active":
+        return <Loader2 className="w-4 h-4 animate-spin text-zinc-300" />;
+      case "review":
+        return <PencilLine className="w-4 h-4 text-yellow-400" />;
+      default:
+        return <div className="w-4 h-4 rounded-full border-2 border-white/20" />;
+    }
+  };
+
+  const getStageDetail = (stage: WorkflowStage) => {
+    const { chunks, retry } = progress;
+    if (getStageStatus(stage) !== "active") return undefined;
+    if (retry && RETRYING_STAGES.includes(stage)) return retry;
+    if (stage === ProgressStage.TRANSCRIBING && chunks) {
+      return `${chunks.completed} of ${chunks.total} chunks transcribed`;
+    }
+  };
+
+  const getStageClassName = (stage: WorkflowStage) => {
+    switch (getStageStatus(stage)) {
+      case "active":
+        return "border-gray-500/30 bg-gray-500/5";
+      case "review":
+        return "border-yellow-500/30 bg-yellow-500/5";
+      case "completed":
+        return "border-green-500/30 bg-green-500/5";
+      default:
+        return "border-white/10 bg-black/20";
     }
-    return "border-white/10 bg-black/20";
   };
 
   if (progress.stage === ProgressStage.IDLE) {
@@ -99,12 +312,28 @@ export function WorkflowProgressPanel() {
   return (
     <div className="w-[500px] mx-auto my-4">
       <Card className="bg-black/20 backdrop-blur-md border-white/10">
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle className="text-white text-xl">AI Workflow Progress</CardTitle>
+          {!RUN_END_STAGES.includes(progress.stage) && (
+            <Button
+              variant="destructive"
+              size="sm"
+              className="cursor-pointer"
+              onClick={handleCancel}
+              disabled={isCancelling}
+            >
+              {isCancelling ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Ban className="w-4 h-4" />
+              )}
+              {isCancelling ? "Cancelling..." : "Cancel"}
+            </Button>
+          )}
         </CardHeader>
         <CardContent className="space-y-3">
           <Accordion type="multiple" value={openAccordions} onValueChange={setOpenAccordions}>
-            {WORKFLOW_STAGES.map((stage, index) => {
+            {workflowStages.map((stage, index) => {
               const hasContent =
                 (stage === ProgressStage.TRANSCRIBING && progress.transcript) ||
                 (stage === ProgressStage.GENERATING_TASK && progress.intermediateOutput) ||
@@ -114,7 +343,7 @@ export function WorkflowProgressPanel() {
                 <AccordionItem
                   key={stage}
                   value={`stage-${index}`}
-                  className={`border rounded-lg ${index < WORKFLOW_STAGES.length - 1 ? "mb-2" : ""} transition-all ${getStageClassName(stage)}`}
+                  className={`border rounded-lg ${index < workflowStages.length - 1 ? "mb-2" : ""} transition-all ${getStageClassName(stage)}`}
                 >
                   {hasContent ? (
                     <StageWithContent
@@ -125,7 +354,11 @@ export function WorkflowProgressPanel() {
                       getStageIcon={getStageIcon}
                     />
                   ) : (
-                    <StageWithoutContent stage={stage} getStageIcon={getStageIcon} />
+                    <StageWithoutContent
+                      stage={stage}
+                      getStageIcon={getStageIcon}
+                      detail={getStageDetail(stage)}
+                    />
                   )}
                 </AccordionItem>
               );
@@ -136,11 +369,106 @@ export function WorkflowProgressPanel() {
             <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
               <div className="flex items-center gap-2 mb-2">
                 <XCircle className="w-5 h-5 text-red-400" />
-                <span className="text-red-400 font-medium">Error</span>
+                <span className="text-red-400 font-medium">
+                  {progress.failedStage ? `Failed: ${STAGE_CONFIG[progress.failedStage]}` : "Error"}
+                </span>
               </div>
               <p className="text-white/70 text-sm break-words whitespace-normal max-w-full">
                 {progress.error}
               </p>
+              {progress.detail && (
+                <p className="text-white/50 text-xs mt-1 break-words whitespace-normal max-w-full">
+                  {progress.detail}
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2 mt-3">
+                {progress.remediation && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    className="cursor-pointer"
+                    onClick={() => handleRemediation(progress.remediation)}
+                  >
+                    <Wrench className="w-4 h-4" />
+                    {REMEDIATION_LABELS[progress.remediation]}
+                  </Button>
+                )}
+                {progress.runId && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    className="cursor-pointer"
+                    onClick={handleRetry}
+                    disabled={isRetrying}
+                  >
+                    {isRetrying ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4" />
+                    )}
+                    {isRetrying ? "Retrying..." : "Retry this stage"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {progress.stage === ProgressStage.COMPLETED && progress.videoFilePath && (
+            <div className="bg-white/5 border border-white/20 rounded-lg p-4">
+              <div className="flex items-center gap-2 mb-2">
+                <HardDrive className="w-5 h-5 text-white/60" />
+                <span className="text-white/80 font-medium">Video kept locally</span>
+              </div>
+              <p className="text-white/60 text-sm break-all">{progress.videoFilePath}</p>
+            </div>
+          )}
+
+          {progress.stage === ProgressStage.COMPLETED && progress.recordingCopyPath && (
+            <div className="bg-white/5 border border-white/20 rounded-lg p-4">
+              <div className="flex items-center gap-2 mb-2">
+                <FolderDown className="w-5 h-5 text-white/60" />
+                <span className="text-white/80 font-medium">Recording saved</span>
+              </div>
+              <p className="text-white/60 text-sm break-all">{progress.recordingCopyPath}</p>
+            </div>
+          )}
+
+          {progress.stage === ProgressStage.COMPLETED && progress.recordingCopyError && (
+            <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4">
+              <div className="flex items-center gap-2 mb-2">
+                <AlertCircle className="w-5 h-5 text-yellow-400" />
+                <span className="text-yellow-400 font-medium">Recording not saved</span>
+              </div>
+              <p className="text-white/70 text-sm break-words">{progress.recordingCopyError}</p>
+            </div>
+          )}
+
+          {progress.stage === ProgressStage.CANCELLED && (
+            <div className="bg-white/5 border border-white/20 rounded-lg p-4">
+              <div className="flex items-center gap-2">
+                <Ban className="w-5 h-5 text-white/60" />
+                <span className="text-white/80 font-medium">Workflow cancelled</span>
+              </div>
+            </div>
+          )}
+
+          {usage && Object.keys(usage.stages).length > 0 && (
+            <div className="bg-white/5 border border-white/20 rounded-lg p-4">
+              <div className="flex items-center gap-2 mb-2">
+                <Coins className="w-5 h-5 text-white/60" />
+                <span className="text-white/80 font-medium">LLM usage</span>
+              </div>
+              {(Object.keys(LLM_STAGE_LABELS) as LLMStage[]).map((stage) => {
+                const totals = usage.stages[stage];
+                return (
+                  totals && (
+                    <p key={stage} className="text-white/60 text-sm">
+                      {LLM_STAGE_LABELS[stage]}: {formatUsageTotals(totals)}
+                    </p>
+                  )
+                );
+              })}
+              <p className="text-white/80 text-sm mt-1">Total: {formatUsageTotals(usage.total)}</p>
             </div>
           )}
         </CardContent>
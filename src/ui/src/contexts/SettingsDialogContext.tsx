@@ -0,0 +1,29 @@
+import { createContext, type ReactNode, useContext, useState } from "react";
+
+export type SettingsDialog = "llm" | "mcp";
+
+interface SettingsDialogContextType {
+  openDialog: SettingsDialog | null;
+  setOpenDialog: (dialog: SettingsDialog | null) => void;
+}
+
+const SettingsDialogContext = createContext<SettingsDialogContextType | undefined>(undefined);
+
+// Lets other parts of the app open a settings dialog, e.g. to fix what made a run fail
+export const SettingsDialogProvider = ({ children }: { children: ReactNode }) => {
+  const [openDialog, setOpenDialog] = useState<SettingsDialog | null>(null);
+
+  return (
+    <SettingsDialogContext.Provider value={{ openDialog, setOpenDialog }}>
+      {children}
+    </SettingsDialogContext.Provider>
+  );
+};
+
+export const useSettingsDialog = () => {
+  const context = useContext(SettingsDialogContext);
+  if (!context) {
+    throw new Error("useSettingsDialog must be used within a SettingsDialogProvider");
+  }
+  return context;
+};
@@ -114,22 +114,20 @@ export const YouTubeAuthProvider = ({ children }: { children: ReactNode }) => {
 
   // Listen to workflow progress for upload results
   useEffect(() => {
-    return ipcClient.workflow.onProgress((data: unknown) => {
-      const progressData = data as {
-        stage: string;
-        uploadResult?: VideoUploadResult;
-      };
-      if (progressData.stage === ProgressStage.UPLOAD_COMPLETED && progressData.uploadResult) {
-        setUploadResult(progressData.uploadResult);
-        setUploadStatus(
-          progressData.uploadResult.success ? UploadStatus.SUCCESS : UploadStatus.ERROR,
-        );
+    return ipcClient.workflow.onEvent((event) => {
+      // Batch uploads are reported per item in the batch panel
+      if (event.batchId || event.kind !== "stage") return;
+
+      if (event.stage === ProgressStage.UPLOAD_COMPLETED) {
+        const { uploadResult } = event.payload;
+        setUploadResult(uploadResult);
+        setUploadStatus(uploadResult.success ? UploadStatus.SUCCESS : UploadStatus.ERROR);
       }
 
-      // Reset on idle
-      if (progressData.stage === ProgressStage.IDLE) {
-        setUploadResult(null);
-        setUploadStatus(UploadStatus.IDLE);
+      // Drop the uploading state when the run was cancelled mid-upload, or finished without
+      // uploading because its run mode keeps the video local
+      if (event.stage === ProgressStage.CANCELLED || event.stage === ProgressStage.COMPLETED) {
+        setUploadStatus((prev) => (prev === UploadStatus.UPLOADING ? UploadStatus.IDLE : prev));
       }
     });
   }, []);
@@ -29,6 +29,8 @@ export function usePromptManager() {
         name: data.name,
         description: data.description,
         content: data.content,
+        runMode: data.runMode,
+        models: data.models,
       });
       toast.success("Prompt created successfully");
 
@@ -54,6 +56,8 @@ export function usePromptManager() {
         name: data.name,
         description: data.description,
         content: data.content,
+        runMode: data.runMode,
+        models: data.models,
       });
       if (andActivate) {
         await ipcClient.settings.setActivePrompt(id);
@@ -7,6 +7,12 @@ interface RecordingStreams {
   video?: MediaStream;
   audio?: MediaStream;
 }
+interface SavedRecording {
+  blob: Blob;
+  filePath: string;
+  markers: number[]; // seconds into the recording the user marked
+}
+
 interface ElectronVideoConstraints extends MediaTrackConstraints {
   mandatory?: {
     chromeMediaSource: string;
@@ -79,7 +85,7 @@ export function useScreenRecording() {
     [cleanup],
   );
 
-  const stop = useCallback(async (): Promise<{ blob: Blob; filePath: string } | null> => {
+  const stop = useCallback(async (): Promise<SavedRecording | null> => {
     if (!mediaRecorderRef.current) return null;
 
     setIsProcessing(true);
@@ -100,7 +106,7 @@ export function useScreenRecording() {
           }
 
           toast.success("Recording completed! Review your video.");
-          resolve({ blob, filePath: result.filePath });
+          resolve({ blob, filePath: result.filePath, markers: result.markers ?? [] });
         } catch (error) {
           toast.error(`Failed to save recording: ${error}`);
           resolve(null);
@@ -115,10 +121,32 @@ export function useScreenRecording() {
     });
   }, [cleanup]);
 
+  const setPaused = useCallback((paused: boolean) => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder) return;
+
+    if (paused && recorder.state === "recording") recorder.pause();
+    if (!paused && recorder.state === "paused") recorder.resume();
+  }, []);
+
+  // Stop without saving anything; the main process has already hidden the control bar
+  const cancel = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder) return;
+
+    recorder.onstop = null;
+    recorder.stop();
+    cleanup();
+    setIsRecording(false);
+    toast.info("Recording cancelled");
+  }, [cleanup]);
+
   return {
     isRecording,
     isProcessing,
     start,
     stop,
+    setPaused,
+    cancel,
   };
 }
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+
+const SUPPORTED_VIDEO_EXTENSIONS = ["mp4", "mov", "mkv", "webm"];
+
+const isSupportedVideoFile = (file: File) =>
+  SUPPORTED_VIDEO_EXTENSIONS.includes(file.name.split(".").pop()?.toLowerCase() ?? "");
+
+/**
+ * Listens for video files dropped anywhere on the window and reports their paths on disk.
+ */
+export function useVideoFileDrop(
+  onDrop: (filePaths: string[]) => void,
+  onUnsupported: (fileName: string) => void,
+  enabled = true,
+) {
+  const [isDragging, setIsDragging] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // Track nested enter/leave pairs so hovering over child elements doesn't flicker
+    let dragDepth = 0;
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes("Files") ?? false;
+
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dragDepth++;
+      setIsDragging(true);
+    };
+
+    const handleDragOver = (e: DragEvent) => {
+      // Without this the browser navigates to the dropped file
+      if (hasFiles(e)) e.preventDefault();
+    };
+
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      dragDepth = Math.max(0, dragDepth - 1);
+      if (dragDepth === 0) setIsDragging(false);
+    };
+
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dragDepth = 0;
+      setIsDragging(false);
+
+      const files = Array.from(e.dataTransfer?.files ?? []);
+      const unsupported = files.find((file) => !isSupportedVideoFile(file));
+      if (unsupported) onUnsupported(unsupported.name);
+
+      const videos = files.filter(isSupportedVideoFile);
+      if (videos.length) {
+        onDrop(videos.map((file) => window.electronAPI.video.getPathForFile(file)));
+      }
+    };
+
+    window.addEventListener("dragenter", handleDragEnter);
+    window.addEventListener("dragover", handleDragOver);
+    window.addEventListener("dragleave", handleDragLeave);
+    window.addEventListener("drop", handleDrop);
+    return () => {
+      window.removeEventListener("dragenter", handleDragEnter);
+      window.removeEventListener("dragover", handleDragOver);
+      window.removeEventListener("dragleave", handleDragLeave);
+      window.removeEventListener("drop", handleDrop);
+      setIsDragging(false);
+    };
+  }, [onDrop, onUnsupported, enabled]);
+
+  return { isDragging };
+}
@@ -1,17 +1,34 @@
 import type { MCPServerConfig } from "@/components/mcp/McpServerForm";
 import type {
+  AppSettings,
+  ArtifactUsage,
   AuthResult,
   AuthState,
+  BatchProgress,
   ConvertVideoToMp3Result,
   HealthStatusInfo,
+  HotkeyAction,
+  HotkeyStatus,
   CustomPrompt,
   LLMConfig,
+  LLMStageModels,
+  MonthlyUsage,
+  PipelineEvent,
+  ReviewDecision,
+  RunMode,
+  RunSummary,
+  RunUsage,
   ScreenRecordingStartResult,
   ScreenRecordingStopResult,
   ScreenSource,
+  ToolApprovalDecision,
   TranscriptEntry,
   UserInfo,
+  VideoJob,
   VideoUploadResult,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
   YouTubeConfig,
 } from "../types";
 
@@ -19,15 +36,20 @@ declare global {
   interface Window {
     electronAPI: {
       pipelines: {
-        processVideo: (filePath?: string) => Promise<void>;
-        retryVideo: (
-          intermediateOutput: string,
-          videoUploadResult: VideoUploadResult,
-        ) => Promise<{
-          success: boolean;
-          finalOutput?: string | null;
-          error?: string;
-        }>;
+        processVideo: (
+          filePath?: string,
+          options?: { mode?: RunMode; markers?: number[] },
+        ) => Promise<void>;
+        importVideo: (filePath: string, options?: { mode?: RunMode }) => Promise<void>;
+        retryVideo: (runId: string) => Promise<void>;
+        listUnfinishedJobs: () => Promise<VideoJob[]>;
+        resumeJob: (jobId: string) => Promise<void>;
+        discardJob: (jobId: string) => Promise<boolean>;
+        cancel: (runId?: string) => Promise<boolean>;
+        submitReview: (runId: string, decision: ReviewDecision) => Promise<boolean>;
+        processBatch: (paths: string[], options?: { mode?: RunMode }) => Promise<BatchProgress>;
+        cancelBatch: (batchId: string) => Promise<boolean>;
+        onBatchProgress: (callback: (progress: BatchProgress) => void) => () => void;
       };
       youtube: {
         startAuth: () => Promise<AuthResult>;
@@ -50,6 +72,8 @@ declare global {
       };
       video: {
         selectVideoFile: () => Promise<string | null>;
+        selectVideoFiles: () => Promise<string[]>;
+        getPathForFile: (file: File) => string;
         selectOutputDirectory: () => Promise<string | null>;
         convertVideoToMp3: (
           inputPath: string,
@@ -67,12 +91,15 @@ declare global {
         minimizeMainWindow: () => Promise<{ success: boolean }>;
         restoreMainWindow: () => Promise<{ success: boolean }>;
         onStopRequest: (callback: () => void) => () => void;
+        onStartRequest: (callback: (sourceId: string | null) => void) => () => void;
+        onPauseRequest: (callback: (paused: boolean) => void) => () => void;
+        onCancelRequest: (callback: () => void) => () => void;
       };
       controlBar: {
         onTimeUpdate: (callback: (time: string) => void) => () => void;
       };
       workflow: {
-        onProgress: (callback: (progress: unknown) => void) => () => void;
+        onEvent: (callback: (event: PipelineEvent) => void) => () => void;
       };
       mcp: {
         processMessage: (
@@ -85,20 +112,21 @@ declare global {
         }>;
         prefillPrompt: (text: string) => void;
         onPrefillPrompt: (callback: (text: string) => void) => () => void;
-        onStepUpdate: (
-          callback: (step: {
-            type: "start" | "tool_call" | "final_result";
-            message?: string;
-            toolName?: string;
-            serverName?: string;
-          }) => void,
-        ) => () => void;
+        respondToolApproval: (
+          approvalId: string,
+          decision: ToolApprovalDecision,
+        ) => Promise<boolean>;
         listServers: () => Promise<MCPServerConfig[]>;
         addServer: (config: MCPServerConfig) => Promise<{ success: boolean }>;
         updateServer: (name: string, config: MCPServerConfig) => Promise<{ success: boolean }>;
         removeServer: (name: string) => Promise<{ success: boolean }>;
         checkServerHealth: (name: string) => Promise<HealthStatusInfo>;
       };
+      history: {
+        listRuns: (query?: string) => Promise<RunSummary[]>;
+        getRun: (runId: string) => Promise<VideoJob | null>;
+        deleteRun: (runId: string) => Promise<boolean>;
+      };
       settings: {
         getAllPrompts: () => Promise<Array<CustomPrompt>>;
         getActivePrompt: () => Promise<CustomPrompt | null>;
@@ -106,13 +134,44 @@ declare global {
           name: string;
           description?: string;
           content: string;
+          runMode?: RunMode;
+          models?: LLMStageModels;
         }) => Promise<CustomPrompt>;
         updatePrompt: (
           id: string,
-          updates: { name?: string; description?: string; content?: string },
+          updates: {
+            name?: string;
+            description?: string;
+            content?: string;
+            runMode?: RunMode;
+            models?: LLMStageModels;
+          },
         ) => Promise<boolean>;
         deletePrompt: (id: string) => Promise<boolean>;
         setActivePrompt: (id: string) => Promise<boolean>;
+        getAppSettings: () => Promise<AppSettings>;
+        updateAppSettings: (updates: Partial<AppSettings>) => Promise<AppSettings>;
+        getArtifactUsage: () => Promise<ArtifactUsage>;
+        regenerateApiToken: () => Promise<AppSettings>;
+        getHotkeyStatus: () => Promise<Partial<Record<HotkeyAction, HotkeyStatus>>>;
+      };
+      webhooks: {
+        list: () => Promise<Webhook[]>;
+        add: (input: {
+          url: string;
+          secret: string | null;
+          events: WebhookEvent[];
+        }) => Promise<Webhook>;
+        update: (
+          id: string,
+          updates: Partial<Pick<Webhook, "url" | "secret" | "events" | "enabled">>,
+        ) => Promise<Webhook | null>;
+        delete: (id: string) => Promise<boolean>;
+        test: (id: string) => Promise<WebhookDelivery>;
+      };
+      usage: {
+        getRun: (runId: string) => Promise<RunUsage>;
+        getMonthly: () => Promise<MonthlyUsage[]>;
       };
     };
   }
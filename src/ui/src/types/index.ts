@@ -62,6 +62,7 @@ export interface ScreenRecordingStartResult {
 export interface ScreenRecordingStopResult {
   success: boolean;
   filePath?: string;
+  markers?: number[];
   error?: string;
 }
 
@@ -83,9 +84,25 @@ export interface TranscriptEntry {
   name?: string;
 }
 
+export type LLMStage = "transcription" | "summary" | "taskExecution";
+
+export type LLMStageModels = Partial<Record<LLMStage, string>>;
+
+export const LLM_STAGE_LABELS: Record<LLMStage, string> = {
+  transcription: "Transcription",
+  summary: "Summary",
+  taskExecution: "Task execution",
+};
+
+export type TranscriptionConfig =
+  | { provider: "llm" }
+  | { provider: "whisper-cpp"; modelPath: string; binaryPath: string; language?: string };
+
 interface OpenAI {
   provider: "openai";
   apiKey: string;
+  models?: LLMStageModels;
+  transcription?: TranscriptionConfig;
 }
 
 interface AzureOpenAI {
@@ -94,36 +111,270 @@ interface AzureOpenAI {
   endpoint: string;
   version: string;
   deployment: string;
+  models?: LLMStageModels;
+  transcription?: TranscriptionConfig;
 }
 
-export type LLMConfig = OpenAI | AzureOpenAI;
+interface OpenAICompatible {
+  provider: "openai-compatible";
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  models?: LLMStageModels;
+  transcription?: TranscriptionConfig;
+}
+
+export type LLMConfig = OpenAI | AzureOpenAI | OpenAICompatible;
 
 export type WorkflowStage =
   | "idle"
+  | "uploading"
+  | "upload_completed"
   | "converting_audio"
   | "transcribing"
+  | "transcription_completed"
+  | "reviewing_transcript"
   | "generating_task"
+  | "reviewing_summary"
   | "executing_task"
   | "completed"
+  | "cancelled"
   | "error";
 
 export const STAGE_CONFIG: Record<WorkflowStage, string> = {
   idle: "Waiting for recording...",
+  uploading: "Uploading video",
+  upload_completed: "Video uploaded",
   converting_audio: "Converting audio",
   transcribing: "Transcribing audio",
+  transcription_completed: "Transcription completed",
+  reviewing_transcript: "Reviewing transcript",
   generating_task: "Analyzing transcript",
+  reviewing_summary: "Reviewing summary",
   executing_task: "Executing task",
   completed: "Completed",
+  cancelled: "Cancelled",
   error: "Error occurred",
 };
 
+// Upload and audio transcription run side by side; their progress events are tagged with the branch
+export type PipelineBranch = "upload" | "transcription";
+
+export type RunMode = "full" | "local_only" | "summary_only" | "transcript_only" | "upload_only";
+
+export interface RunModeSteps {
+  upload: boolean;
+  transcribe: boolean;
+  summarize: boolean;
+  execute: boolean;
+}
+
+export const RUN_MODES: Record<RunMode, { label: string; steps: RunModeSteps }> = {
+  full: {
+    label: "Full pipeline",
+    steps: { upload: true, transcribe: true, summarize: true, execute: true },
+  },
+  local_only: {
+    label: "Keep video local",
+    steps: { upload: false, transcribe: true, summarize: true, execute: true },
+  },
+  summary_only: {
+    label: "Summarize, don't execute",
+    steps: { upload: true, transcribe: true, summarize: true, execute: false },
+  },
+  transcript_only: {
+    label: "Transcript only",
+    steps: { upload: false, transcribe: true, summarize: false, execute: false },
+  },
+  upload_only: {
+    label: "Upload only",
+    steps: { upload: true, transcribe: false, summarize: false, execute: false },
+  },
+};
+
+export type BatchItemStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface BatchItem {
+  filePath: string;
+  status: BatchItemStatus;
+  runId?: string;
+  stage?: WorkflowStage;
+  title?: string;
+  videoUrl?: string;
+  error?: string;
+}
+
+export interface BatchProgress {
+  batchId: string;
+  items: BatchItem[];
+  finished: boolean;
+}
+
+export type ReviewDecision = { action: "continue"; content: string } | { action: "regenerate" };
+
+export type ArtifactRetention = "delete_on_success" | "keep_days" | "keep_forever";
+
+export type HotkeyAction =
+  | "startRecording"
+  | "stopRecording"
+  | "pauseRecording"
+  | "addMarker"
+  | "cancelRecording";
+
+export type HotkeySettings = Record<HotkeyAction, string | null>;
+
+export type HotkeyStatus = "registered" | "in_use" | "invalid";
+
+export interface ModelPrice {
+  model: string;
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  perAudioMinute: number;
+}
+
+export interface AppSettings {
+  reviewTranscript: boolean;
+  reviewSummary: boolean;
+  batchConcurrency: number;
+  artifactRetention: ArtifactRetention;
+  artifactRetentionDays: number;
+  recordingsFolder: string | null;
+  recordingFileNameTemplate: string;
+  automationApiEnabled: boolean;
+  automationApiPort: number;
+  automationApiToken: string | null;
+  startMinimizedToTray: boolean;
+  keepRunningInTray: boolean;
+  lastRecordingSourceId: string | null;
+  hotkeys: HotkeySettings;
+  modelPrices: ModelPrice[];
+  llmMaxAttempts: number;
+  llmRequestTimeoutSeconds: number;
+}
+
+export interface ArtifactUsage {
+  totalBytes: number;
+  fileCount: number;
+  runCount: number;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  audioSeconds: number;
+  cost: number; // in US dollars, of the calls whose model had a price
+  unpricedCalls: number;
+}
+
+export interface RunUsage {
+  runId: string;
+  stages: Partial<Record<LLMStage, UsageTotals>>;
+  total: UsageTotals;
+}
+
+export interface MonthlyUsage {
+  month: string; // e.g. "2026-10"
+  runCount: number;
+  total: UsageTotals;
+}
+
+export type WebhookEvent = "run.completed" | "run.failed";
+
+export interface WebhookDelivery {
+  event: WebhookEvent | "test";
+  ok: boolean;
+  status?: number;
+  error?: string;
+  attempts: number;
+  deliveredAt: number;
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string | null;
+  events: WebhookEvent[];
+  enabled: boolean;
+  lastDelivery?: WebhookDelivery;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface WorkflowProgress {
   stage: WorkflowStage;
+  runId?: string;
+  mode?: RunMode;
+  branch?: PipelineBranch;
+  chunks?: { completed: number; total: number };
+  retry?: string; // e.g. "Rate limited, retrying in 8s (attempt 2 of 4)"
   transcript?: string;
   intermediateOutput?: string;
-  finalOutput?: string;
+  finalOutput?: string | null;
   uploadResult?: VideoUploadResult;
+  videoFilePath?: string; // set on completion when the run kept the video instead of uploading it
+  recordingCopyPath?: string;
+  recordingCopyError?: string;
   error?: string;
+  detail?: string;
+  failedStage?: PipelineStage;
+  remediation?: ErrorRemediation;
+}
+
+export type MCPStepType =
+  | "start"
+  | "reasoning"
+  | "tool_approval"
+  | "tool_call"
+  | "tool_result"
+  | "retry"
+  | "final_result";
+
+export interface MCPStep {
+  id?: string;
+  type: MCPStepType;
+  message?: string;
+  reasoning?: string;
+  toolName?: string;
+  serverName?: string;
+  args?: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  approvalId?: string;
+  partial?: boolean; // reasoning still streaming in; replaced by the next step with the same id
+  timestamp?: number;
+}
+
+export type ToolApprovalDecision =
+  | { approved: true; args?: Record<string, unknown> }
+  | { approved: false };
+
+export type VideoJobStatus = "running" | "interrupted" | "failed" | "cancelled" | "completed";
+
+export interface VideoJob {
+  id: string;
+  filePath: string;
+  imported?: boolean;
+  status: VideoJobStatus;
+  checkpoints: {
+    uploadResult?: VideoUploadResult;
+    mp3FilePath?: string;
+    transcript?: string;
+    intermediateOutput?: string;
+    mcpResult?: { final: string | null; transcript: TranscriptEntry[] };
+  };
+  steps: MCPStep[];
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RunSummary {
+  id: string;
+  status: VideoJobStatus;
+  title: string;
+  videoUrl?: string;
+  error?: string;
+  createdAt: number;
 }
 
 export interface CustomPrompt {
@@ -131,6 +382,8 @@ export interface CustomPrompt {
   name: string;
   description?: string;
   content: string;
+  runMode?: RunMode;
+  models?: LLMStageModels;
   isDefault?: boolean;
   createdAt: number;
   updatedAt: number;
@@ -145,12 +398,114 @@ export interface HealthStatusInfo {
 
 export enum ProgressStage {
   IDLE = "idle",
+  UPLOADING = "uploading",
   UPLOAD_COMPLETED = "upload_completed",
   CONVERTING_AUDIO = "converting_audio",
   TRANSCRIBING = "transcribing",
   TRANSCRIPTION_COMPLETED = "transcription_completed",
+  REVIEWING_TRANSCRIPT = "reviewing_transcript",
   GENERATING_TASK = "generating_task",
+  REVIEWING_SUMMARY = "reviewing_summary",
   EXECUTING_TASK = "executing_task",
   ERROR = "error",
+  CANCELLED = "cancelled",
   COMPLETED = "completed",
 }
+
+export type PipelineErrorCode =
+  | "LLM_NOT_CONFIGURED"
+  | "AZURE_DEPLOYMENT_MISSING"
+  | "OPENAI_IS_NOT_CONFIGURED"
+  | "LLM_AUTH_FAILED"
+  | "LLM_QUOTA_EXCEEDED"
+  | "YOUTUBE_NOT_CONNECTED"
+  | "YOUTUBE_AUTH_EXPIRED"
+  | "YOUTUBE_QUOTA_EXCEEDED"
+  | "UPLOAD_FAILED"
+  | "VIDEO_FILE_NOT_FOUND"
+  | "FFMPEG_FAILED"
+  | "TRANSCRIPTION_FAILED"
+  | "MCP_SERVER_UNREACHABLE"
+  | "UNKNOWN";
+
+// A fix the UI can offer for a failed run, rendered as a button next to the error
+export type ErrorRemediation = "open_llm_settings" | "open_mcp_settings" | "connect_youtube";
+
+export const REMEDIATION_LABELS: Record<ErrorRemediation, string> = {
+  open_llm_settings: "Open LLM Settings",
+  open_mcp_settings: "Open MCP Settings",
+  connect_youtube: "Reconnect YouTube",
+};
+
+export interface PipelineFailure {
+  code: PipelineErrorCode;
+  error: string;
+  detail?: string; // the underlying error, when `error` only describes what kind of failure it was
+  failedStage?: PipelineStage;
+  remediation?: ErrorRemediation;
+}
+
+// Mirrors the pipeline event protocol in the backend's types
+export interface PipelineStagePayloads {
+  [ProgressStage.UPLOADING]: { branch: "upload" };
+  [ProgressStage.UPLOAD_COMPLETED]: { branch: "upload"; uploadResult: VideoUploadResult };
+  [ProgressStage.CONVERTING_AUDIO]: { branch: "transcription" };
+  [ProgressStage.TRANSCRIBING]: {
+    branch: "transcription";
+    chunks?: { completed: number; total: number }; // set while a long recording is transcribed in chunks
+    retry?: string; // set while a failed request waits to be sent again
+  };
+  [ProgressStage.TRANSCRIPTION_COMPLETED]: { branch: "transcription"; transcript: string };
+  [ProgressStage.REVIEWING_TRANSCRIPT]: { transcript: string };
+  [ProgressStage.GENERATING_TASK]: {
+    transcript: string;
+    retry?: string; // set while a failed request waits to be sent again
+  };
+  [ProgressStage.REVIEWING_SUMMARY]: { transcript: string; intermediateOutput: string };
+  [ProgressStage.EXECUTING_TASK]: { transcript?: string; intermediateOutput: string };
+  [ProgressStage.COMPLETED]: {
+    transcript?: string;
+    intermediateOutput?: string;
+    finalOutput?: string | null;
+    videoFilePath?: string;
+    recordingCopyPath?: string;
+    recordingCopyError?: string;
+  };
+  [ProgressStage.ERROR]: PipelineFailure;
+  [ProgressStage.CANCELLED]: Record<string, never>;
+}
+
+export type PipelineStage = keyof PipelineStagePayloads;
+
+// Stages that end a run, whether it completed, failed or was cancelled
+export const RUN_END_STAGES: WorkflowStage[] = [
+  ProgressStage.COMPLETED,
+  ProgressStage.ERROR,
+  ProgressStage.CANCELLED,
+];
+
+interface PipelineEventBase {
+  runId: string;
+  seq: number;
+  mode: RunMode;
+  batchId?: string; // set on runs started by a batch, which the batch panel reports on
+  external?: boolean; // set on runs submitted from outside the UI, which the caller follows
+  startedAt: number;
+  endedAt?: number;
+}
+
+export type PipelineStageEvent = {
+  [S in PipelineStage]: PipelineEventBase & {
+    kind: "stage";
+    stage: S;
+    payload: PipelineStagePayloads[S];
+  };
+}[PipelineStage];
+
+export interface PipelineStepEvent extends PipelineEventBase {
+  kind: "step";
+  stage: ProgressStage.EXECUTING_TASK;
+  payload: { step: MCPStep };
+}
+
+export type PipelineEvent = PipelineStageEvent | PipelineStepEvent;
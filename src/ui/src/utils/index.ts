@@ -1,3 +1,5 @@
+import type { UsageTotals } from "../types";
+
 /**
  * Recursively parses JSON strings within nested objects and arrays.
  * If a string is valid JSON, it will be parsed and the function will continue parsing its contents.
@@ -47,3 +49,28 @@ export const deepParseJson = (obj: unknown): unknown => {
 export function formatErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : String(error);
 }
+
+/**
+ * Formats the tokens, transcribed audio and cost of LLM calls, e.g. "12,345 tokens, 3.2 audio
+ * minutes, $0.0420". Calls of models without a price are counted rather than priced.
+ *
+ * @param totals - The usage to format
+ * @returns The formatted usage, leaving out what the calls didn't use
+ */
+export function formatUsageTotals({
+  promptTokens,
+  completionTokens,
+  audioSeconds,
+  cost,
+  unpricedCalls,
+}: UsageTotals): string {
+  const tokens = promptTokens + completionTokens;
+  return [
+    tokens > 0 && `${tokens.toLocaleString()} tokens`,
+    audioSeconds > 0 && `${(audioSeconds / 60).toFixed(1)} audio minutes`,
+    `$${cost.toFixed(cost < 1 ? 4 : 2)}`,
+    unpricedCalls > 0 && `${unpricedCalls} unpriced ${unpricedCalls === 1 ? "call" : "calls"}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}